@@ -0,0 +1,55 @@
+import { kv } from '@vercel/kv';
+import type { DictionaryEntry } from '../../src/types/proofreader.js';
+import { DEFAULT_MEMORIAL_DICTIONARY } from '../../src/utils/hebrewTextUtils.js';
+
+const ENTRIES_KEY = 'dictionary:entries';
+const SEEDED_KEY = 'dictionary:seeded';
+
+/**
+ * Copy the built-in entries into KV the first time the dictionary is used,
+ * so later edits and deletions of them stick
+ */
+async function seedDictionary(): Promise<void> {
+  if (await kv.get(SEEDED_KEY)) return;
+
+  const fields = Object.fromEntries(DEFAULT_MEMORIAL_DICTIONARY.map((entry) => [entry.id, entry]));
+  await kv.hset(ENTRIES_KEY, fields);
+  await kv.set(SEEDED_KEY, true);
+}
+
+export async function loadDictionary(): Promise<DictionaryEntry[]> {
+  await seedDictionary();
+  const entries = await kv.hgetall<Record<string, DictionaryEntry>>(ENTRIES_KEY);
+  return Object.values(entries ?? {}).sort((a, b) => a.term.localeCompare(b.term, 'he'));
+}
+
+export async function getDictionaryEntry(id: string): Promise<DictionaryEntry | null> {
+  await seedDictionary();
+  return kv.hget<DictionaryEntry>(ENTRIES_KEY, id);
+}
+
+export async function saveDictionaryEntry(entry: DictionaryEntry): Promise<void> {
+  await seedDictionary();
+  await kv.hset(ENTRIES_KEY, { [entry.id]: entry });
+}
+
+export async function deleteDictionaryEntry(id: string): Promise<boolean> {
+  await seedDictionary();
+  return (await kv.hdel(ENTRIES_KEY, id)) > 0;
+}
+
+/**
+ * One prompt line per entry: the expansion, gender forms and whether to avoid it
+ */
+export function formatDictionaryForPrompt(entries: DictionaryEntry[]): string {
+  return entries.map((entry) => {
+    let line = `- ${entry.term} = ${entry.expansion}`;
+    if (entry.maleForm && entry.femaleForm) {
+      line += ` (לזכר: ${entry.maleForm}, לנקבה: ${entry.femaleForm})`;
+    }
+    if (entry.discouraged) {
+      line += ` - לא מומלץ${entry.note ? ` (${entry.note})` : ''}, יש לדווח כהצעה`;
+    }
+    return line;
+  }).join('\n');
+}
@@ -0,0 +1,24 @@
+import { kv } from '@vercel/kv';
+import type { HouseStyleProfile } from '../../src/types/proofreader.js';
+import { DEFAULT_HOUSE_STYLE } from '../../src/utils/houseStyle.js';
+
+const HOUSE_STYLE_KEY = 'house-style:profile';
+
+export async function loadHouseStyle(): Promise<HouseStyleProfile> {
+  return (await kv.get<HouseStyleProfile>(HOUSE_STYLE_KEY)) ?? DEFAULT_HOUSE_STYLE;
+}
+
+export async function saveHouseStyle(profile: HouseStyleProfile): Promise<void> {
+  await kv.set(HOUSE_STYLE_KEY, profile);
+}
+
+/**
+ * The shop's forms as prompt values, one per placeholder
+ */
+export function formatHouseStyleForPrompt(profile: HouseStyleProfile): Record<'quoteStyle' | 'tanatzbahStyle' | 'dashStyle', string> {
+  return {
+    quoteStyle: profile.quotes === 'hebrew' ? 'גרשיים עבריים (פ״נ, ז״ל)' : 'מירכאות רגילות (פ"נ, ז"ל)',
+    tanatzbahStyle: profile.tanatzbah === 'dotted' ? 'ת.נ.צ.ב.ה' : 'תנצב"ה',
+    dashStyle: profile.dash === 'maqaf' ? 'מקף עברי (־)' : 'מקף רגיל (-)',
+  };
+}
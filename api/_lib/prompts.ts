@@ -0,0 +1,227 @@
+/**
+ * Prompt registry. Every prompt sent to a model is a versioned template with
+ * {{placeholders}}; a published version is never edited - a change is a new
+ * version, so a report can say which wording produced it and two versions
+ * can be compared on the same files.
+ */
+
+export type PromptId = 'proofread' | 'repair';
+
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  changes: string;   // What this version changed, for whoever compares results
+  text: string;
+}
+
+const PROOFREAD_V1: PromptTemplate = {
+  id: 'proofread',
+  version: 1,
+  changes: 'The prompt as used before versioning, with the dictionary filled in',
+  text: `אתה מומחה להגהת טקסטים עבריים על מצבות. נא לנתח את התמונה הזו ולהחזיר JSON בלבד.
+
+## חשוב - זיהוי מבנה:
+התמונה עשויה להכיל מספר חלקים/פאנלים נפרדים של מצבות (למשל 2-3 מצבות בתמונה אחת).
+זהה כל חלק בנפרד והפרד ביניהם ב-rawText עם קו מפריד: "────────────────"
+
+## משימות:
+1. חלץ את כל הטקסט מהתמונה, כולל קטעים ברוסית ובאנגלית - קרא כל מילה בדיוק כפי שהיא מופיעה
+2. זהה כל חלק/פאנל בתמונה בנפרד (אם יש מספר מצבות בתמונה)
+3. זהה את מבנה כל מצבה (כותרת משפחה, הנצחות נפרדות לכל נפטר)
+4. בדוק שגיאות כתיב ודקדוק
+5. וודא שהקיצורים נכונים
+6. זהה ציטוטים תנ"כיים ובדוק דיוקם
+
+## קיצורים ונוסחים מהמילון שצריכים לבדוק:
+{{dictionary}}
+- אין לדווח על סוג המירכאות (" או ״), על ת.נ.צ.ב.ה מול תנצב"ה או על מקף מול מקף עברי - אלה נבדקים לפי סגנון הבית
+
+## בדיקות דקדוק:
+- התאמת מין: בן לזכר, בת לנקבה
+- נפטר לזכר, נפטרה לנקבה
+- זכרונו לזכר, זכרונה לנקבה
+- סמיכות נכונה
+- כתיב עקבי
+
+## מצבות דו-לשוניות (עברית/רוסית או עברית/אנגלית):
+- חלק את הטקסט ל-textBlocks לפי שפה, בסדר הופעתם במצבה: "he", "ru" או "en"
+- בדוק כתיב ודקדוק גם בקטעים ברוסית ובאנגלית, כולל שמות חודשים בתאריכים (ברוסית ביחסת הקניין: 12 марта)
+- רשום ב-transliteratedName את שם הנפטר כפי שהוא כתוב ברוסית או באנגלית
+- ההסבר לכל בעיה בעברית, וה-originalText כפי שהוא כתוב בשפת המקור
+
+## פורמט JSON נדרש:
+{
+  "extractedText": {
+    "rawText": "כל הטקסט כפי שנקרא מהתמונה - מילה במילה",
+    "familyName": "שם המשפחה מהכותרת",
+    "memorials": [
+      {
+        "name": "שם הנפטר",
+        "relationship": "בעלי, אבינו, סבנו וחמנו היקר",
+        "parentNames": "בן/בת פלוני ופלונית",
+        "hebrewBirthDate": "תאריך לידה עברי אם מופיע",
+        "hebrewDeathDate": "י\\"א סיון תשע\\"ט",
+        "gregorianYears": "1938 - 2019 או 3.2.1938 - 11.6.2019",
+        "statedAge": "גיל אם מופיע, למשל בן 87 שנים",
+        "quote": "ציטוט או פסוק אם יש",
+        "transliteratedName": "השם ברוסית או באנגלית אם יש, למשל Chaim Cohen"
+      }
+    ],
+    "headerFormulas": ["פ\\"נ"],
+    "footerFormulas": ["ת.נ.צ.ב.ה"],
+    "textBlocks": [
+      { "language": "he", "text": "הטקסט העברי" },
+      { "language": "ru", "text": "Помним, любим, скорбим" }
+    ]
+  },
+  "issues": [
+    {
+      "category": "spelling|grammar|abbreviation|quote_accuracy|missing_element",
+      "severity": "error|warning|suggestion",
+      "originalText": "הטקסט הבעייתי",
+      "suggestedFix": "התיקון המוצע",
+      "explanation": "הסבר בעברית"
+    }
+  ]
+}
+
+חשוב:
+1. החזר JSON בלבד, ללא טקסט נוסף לפני או אחרי
+2. קרא את הטקסט בדיוק כפי שהוא מופיע בתמונה`,
+};
+
+const PROOFREAD_V2: PromptTemplate = {
+  id: 'proofread',
+  version: 2,
+  changes: "States the shop's house style and asks for marks to be copied as they appear",
+  text: `אתה מומחה להגהת טקסטים עבריים על מצבות. נא לנתח את התמונה הזו ולהחזיר JSON בלבד.
+
+## חשוב - זיהוי מבנה:
+התמונה עשויה להכיל מספר חלקים/פאנלים נפרדים של מצבות (למשל 2-3 מצבות בתמונה אחת).
+זהה כל חלק בנפרד והפרד ביניהם ב-rawText עם קו מפריד: "────────────────"
+
+## משימות:
+1. חלץ את כל הטקסט מהתמונה, כולל קטעים ברוסית ובאנגלית - קרא כל מילה בדיוק כפי שהיא מופיעה
+2. זהה כל חלק/פאנל בתמונה בנפרד (אם יש מספר מצבות בתמונה)
+3. זהה את מבנה כל מצבה (כותרת משפחה, הנצחות נפרדות לכל נפטר)
+4. בדוק שגיאות כתיב ודקדוק
+5. וודא שהקיצורים נכונים
+6. זהה ציטוטים תנ"כיים ובדוק דיוקם
+
+## קיצורים ונוסחים מהמילון שצריכים לבדוק:
+{{dictionary}}
+
+## סגנון הבית:
+- מירכאות וגרשיים: {{quoteStyle}}
+- סיומת: {{tanatzbahStyle}}
+- מקף: {{dashStyle}}
+- ב-rawText העתק את הסימנים בדיוק כפי שהם בתמונה, גם כשהם שונים מסגנון הבית
+- אין לדווח על חריגות מסגנון הבית - הן נבדקות בנפרד
+
+## בדיקות דקדוק:
+- התאמת מין: בן לזכר, בת לנקבה
+- נפטר לזכר, נפטרה לנקבה
+- זכרונו לזכר, זכרונה לנקבה
+- סמיכות נכונה
+- כתיב עקבי
+
+## מצבות דו-לשוניות (עברית/רוסית או עברית/אנגלית):
+- חלק את הטקסט ל-textBlocks לפי שפה, בסדר הופעתם במצבה: "he", "ru" או "en"
+- בדוק כתיב ודקדוק גם בקטעים ברוסית ובאנגלית, כולל שמות חודשים בתאריכים (ברוסית ביחסת הקניין: 12 марта)
+- רשום ב-transliteratedName את שם הנפטר כפי שהוא כתוב ברוסית או באנגלית
+- ההסבר לכל בעיה בעברית, וה-originalText כפי שהוא כתוב בשפת המקור
+
+## פורמט JSON נדרש:
+{
+  "extractedText": {
+    "rawText": "כל הטקסט כפי שנקרא מהתמונה - מילה במילה",
+    "familyName": "שם המשפחה מהכותרת",
+    "memorials": [
+      {
+        "name": "שם הנפטר",
+        "relationship": "בעלי, אבינו, סבנו וחמנו היקר",
+        "parentNames": "בן/בת פלוני ופלונית",
+        "hebrewBirthDate": "תאריך לידה עברי אם מופיע",
+        "hebrewDeathDate": "י\\"א סיון תשע\\"ט",
+        "gregorianYears": "1938 - 2019 או 3.2.1938 - 11.6.2019",
+        "statedAge": "גיל אם מופיע, למשל בן 87 שנים",
+        "quote": "ציטוט או פסוק אם יש",
+        "transliteratedName": "השם ברוסית או באנגלית אם יש, למשל Chaim Cohen"
+      }
+    ],
+    "headerFormulas": ["פ\\"נ"],
+    "footerFormulas": ["ת.נ.צ.ב.ה"],
+    "textBlocks": [
+      { "language": "he", "text": "הטקסט העברי" },
+      { "language": "ru", "text": "Помним, любим, скорбим" }
+    ]
+  },
+  "issues": [
+    {
+      "category": "spelling|grammar|abbreviation|quote_accuracy|missing_element",
+      "severity": "error|warning|suggestion",
+      "originalText": "הטקסט הבעייתי",
+      "suggestedFix": "התיקון המוצע",
+      "explanation": "הסבר בעברית"
+    }
+  ]
+}
+
+חשוב:
+1. החזר JSON בלבד, ללא טקסט נוסף לפני או אחרי
+2. קרא את הטקסט בדיוק כפי שהוא מופיע בתמונה`,
+};
+
+const REPAIR_V1: PromptTemplate = {
+  id: 'repair',
+  version: 1,
+  changes: 'Sends a reply that failed the schema back with its errors, without the image',
+  text: `התשובה הקודמת שלך לבקשת ההגהה שלהלן אינה JSON תקין בפורמט הנדרש.
+
+## השגיאות:
+{{errors}}
+
+## התשובה הקודמת:
+{{reply}}
+
+## הבקשה המקורית:
+{{originalPrompt}}
+
+## הוראות:
+1. החזר את אותו תוכן כ-JSON תקין ומלא בלבד, בפורמט שבבקשה המקורית, ללא טקסט נוסף
+2. אם התשובה נקטעה באמצע, סגור את ה-JSON והשמט את הפריט האחרון שלא הושלם
+3. אל תוסיף ממצאים חדשים ואל תשנה את הטקסט שנקרא`,
+};
+
+export const PROMPTS: PromptTemplate[] = [PROOFREAD_V1, PROOFREAD_V2, REPAIR_V1];
+
+/**
+ * A prompt by version, or its latest version; null for a version that does not exist
+ */
+export function getPrompt(id: PromptId, version?: number): PromptTemplate | null {
+  const versions = PROMPTS.filter((prompt) => prompt.id === id);
+  if (version === undefined) {
+    return versions.reduce((latest, prompt) => (prompt.version > latest.version ? prompt : latest));
+  }
+  return versions.find((prompt) => prompt.version === version) ?? null;
+}
+
+/**
+ * How a version is recorded in reports: "proofread@2"
+ */
+export function promptLabel(prompt: PromptTemplate): string {
+  return `${prompt.id}@${prompt.version}`;
+}
+
+/**
+ * Fill a template's placeholders. A placeholder without a value throws, so a
+ * new version cannot go out with a gap in it.
+ */
+export function renderPrompt(prompt: PromptTemplate, values: Record<string, string>): string {
+  return prompt.text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (values[name] === undefined) {
+      throw new Error(`No value for {{${name}}} in ${promptLabel(prompt)}`);
+    }
+    return values[name];
+  });
+}
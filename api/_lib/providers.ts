@@ -0,0 +1,172 @@
+/**
+ * Model providers behind /api/proofread. Each adapter sends the prompt and
+ * page image to one vendor and returns the model's text; prompt building and
+ * JSON parsing are shared, so a new provider is one more entry here.
+ * Calls are retried by fetchWithRetry within the caller's deadline.
+ */
+
+import { fetchWithRetry } from './retry.js';
+import type { CallFailure } from './retry.js';
+
+export type ProviderId = 'gemini' | 'claude';
+
+export interface ProviderRequest {
+  prompt: string;
+  imageBase64?: string;  // Omitted for text-only follow-ups such as a JSON repair
+  mimeType?: string;
+}
+
+export type ProviderResponse = { ok: true; text: string } | CallFailure;
+
+export interface ProofreadProviderAdapter {
+  id: ProviderId;
+  model: string;      // Recorded with every report the adapter produces
+  apiKeyEnv: string;  // Server-side environment variable holding the key
+  generate: (request: ProviderRequest, apiKey: string, deadline: number) => Promise<ProviderResponse>;
+}
+
+const GEMINI_MODEL = 'gemini-2.0-flash-exp';
+const CLAUDE_MODEL = 'claude-sonnet-4-20250514';
+
+// Overridable through the environment to point at a local stub server
+const geminiApiUrl = () => process.env.GEMINI_API_URL
+  || `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
+const claudeApiUrl = () => process.env.ANTHROPIC_API_URL || 'https://api.anthropic.com/v1/messages';
+const MAX_OUTPUT_TOKENS = 4096;
+
+// The parts of each vendor's reply we read
+interface GeminiReply {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+}
+interface ClaudeReply {
+  content?: Array<{ type: string; text?: string }>;
+}
+
+/**
+ * The provider's JSON reply, or an invalid_response failure when a proxy or
+ * outage page answers with something else
+ */
+function parseBody<T>(body: string, label: string): { ok: true; result: T } | CallFailure {
+  try {
+    return { ok: true, result: JSON.parse(body) as T };
+  } catch {
+    console.error(`${label} returned invalid JSON:`, body.slice(0, 500));
+    return { ok: false, status: 502, code: 'invalid_response', retryable: false, error: `Invalid JSON from ${label}`, details: body };
+  }
+}
+
+const gemini: ProofreadProviderAdapter = {
+  id: 'gemini',
+  model: GEMINI_MODEL,
+  apiKeyEnv: 'GEMINI_API_KEY',
+  async generate({ prompt, imageBase64, mimeType }, apiKey, deadline) {
+    const response = await fetchWithRetry(`${geminiApiUrl()}?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [
+              { text: prompt },
+              ...(imageBase64
+                ? [{
+                  inline_data: {
+                    mime_type: mimeType,
+                    data: imageBase64,
+                  },
+                }]
+                : []),
+            ],
+          },
+        ],
+        generationConfig: {
+          temperature: 0.1,
+          maxOutputTokens: MAX_OUTPUT_TOKENS,
+        },
+      }),
+    }, { label: 'Gemini', deadline });
+
+    if (!response.ok) {
+      return response;
+    }
+
+    const parsed = parseBody<GeminiReply>(response.body, 'Gemini');
+    if (!parsed.ok) {
+      return parsed;
+    }
+
+    const result = parsed.result;
+    const text = result?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      return { ok: false, status: 502, code: 'invalid_response', retryable: false, error: 'No text content in Gemini response', details: result };
+    }
+
+    return { ok: true, text };
+  },
+};
+
+const claude: ProofreadProviderAdapter = {
+  id: 'claude',
+  model: CLAUDE_MODEL,
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  async generate({ prompt, imageBase64, mimeType }, apiKey, deadline) {
+    const response = await fetchWithRetry(claudeApiUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: CLAUDE_MODEL,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        temperature: 0.1,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              ...(imageBase64
+                ? [{
+                  type: 'image',
+                  source: {
+                    type: 'base64',
+                    media_type: mimeType,
+                    data: imageBase64,
+                  },
+                }]
+                : []),
+            ],
+          },
+        ],
+      }),
+    }, { label: 'Claude', deadline });
+
+    if (!response.ok) {
+      return response;
+    }
+
+    const parsed = parseBody<ClaudeReply>(response.body, 'Claude');
+    if (!parsed.ok) {
+      return parsed;
+    }
+
+    const result = parsed.result;
+    const text = result?.content?.find((block) => block.type === 'text')?.text;
+    if (!text) {
+      return { ok: false, status: 502, code: 'invalid_response', retryable: false, error: 'No text content in Claude response', details: result };
+    }
+
+    return { ok: true, text };
+  },
+};
+
+export const PROVIDERS: Record<ProviderId, ProofreadProviderAdapter> = { gemini, claude };
+
+export const DEFAULT_PROVIDER: ProviderId = 'gemini';
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+}
@@ -0,0 +1,149 @@
+/**
+ * Calls to model providers with bounded retries: exponential backoff with
+ * full jitter, Retry-After, a timeout per attempt and a deadline for the
+ * whole call. Each failure is classified as retryable or fatal and carries
+ * an error code the client turns into a Hebrew message.
+ */
+
+import type { ProofreadErrorCode } from '../../src/types/proofreader.js';
+
+export interface RetryOptions {
+  label: string;             // Provider name for logs
+  deadline: number;          // Epoch ms after which no attempt starts and none keeps running
+  maxAttempts?: number;
+  attemptTimeoutMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface CallFailure {
+  ok: false;
+  status: number;
+  code: ProofreadErrorCode;
+  retryable: boolean;
+  error: string;
+  details?: unknown;
+}
+
+export type FetchResult = { ok: true; body: string } | CallFailure;
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 45_000;
+const DEFAULT_BASE_DELAY_MS = 1_000;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+
+/**
+ * Error code of a provider's HTTP status, and whether another attempt may succeed
+ */
+export function classifyStatus(status: number): { code: ProofreadErrorCode; retryable: boolean } {
+  if (status === 401 || status === 403) return { code: 'auth_failed', retryable: false };
+  if (status === 408) return { code: 'timeout', retryable: true };
+  if (status === 429) return { code: 'rate_limited', retryable: true };
+  // 529 is Anthropic's "overloaded"
+  if ([500, 502, 503, 504, 529].includes(status)) return { code: 'provider_unavailable', retryable: true };
+  if (status >= 400 && status < 500) return { code: 'bad_request', retryable: false };
+  return { code: 'unknown', retryable: status >= 500 };
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, in seconds or as an HTTP date
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Full-jitter backoff: a random wait up to base * 2^attempt, capped
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * One attempt, aborted after its timeout. The body is read within the
+ * timeout too, so a stalled stream cannot outlive the deadline.
+ */
+async function attempt(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  label: string
+): Promise<FetchResult & { retryAfter?: number | null }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    const body = await response.text();
+    if (response.ok) return { ok: true, body };
+
+    console.error(`${label} API Error:`, body);
+    return {
+      ok: false,
+      status: response.status,
+      ...classifyStatus(response.status),
+      error: `${label} API Error: ${response.status}`,
+      details: body,
+      retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+    };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { ok: false, status: 504, code: 'timeout', retryable: true, error: `${label} did not answer within ${timeoutMs}ms` };
+    }
+    // DNS failures, refused and reset connections
+    return {
+      ok: false,
+      status: 502,
+      code: 'provider_unavailable',
+      retryable: true,
+      error: `Could not reach ${label}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * POST to a provider, retrying retryable failures until one succeeds, the
+ * attempts run out, or waiting for the next one would pass the deadline.
+ * Returns the last failure otherwise.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions): Promise<FetchResult> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const attemptTimeoutMs = options.attemptTimeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  let failure: CallFailure = {
+    ok: false,
+    status: 504,
+    code: 'timeout',
+    retryable: true,
+    error: `No time left to call ${options.label}`,
+  };
+
+  for (let i = 0; i < maxAttempts; i++) {
+    const remaining = options.deadline - Date.now();
+    if (remaining <= 0) break;
+
+    const { retryAfter, ...result } = await attempt(url, init, Math.min(attemptTimeoutMs, remaining), options.label);
+    if (result.ok) return result;
+    failure = result;
+    if (!failure.retryable || i === maxAttempts - 1) break;
+
+    // The provider's Retry-After wins over our own backoff
+    const delay = retryAfter ?? backoffDelay(i, baseDelayMs, maxDelayMs);
+    if (Date.now() + delay >= options.deadline) break;
+
+    console.warn(`Retrying ${options.label} in ${delay}ms (attempt ${i + 2} of ${maxAttempts}) after: ${failure.error}`);
+    await sleep(delay);
+  }
+
+  return failure;
+}
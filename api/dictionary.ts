@@ -0,0 +1,111 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  loadDictionary,
+  getDictionaryEntry,
+  saveDictionaryEntry,
+  deleteDictionaryEntry,
+} from './_lib/dictionary.js';
+import type { DictionaryEntry } from '../src/types/proofreader.js';
+import { normalizeQuotes } from '../src/utils/hebrewTextUtils.js';
+
+type DictionaryEntryInput = Omit<DictionaryEntry, 'id' | 'updatedAt'>;
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function parseEntryInput(body: unknown): DictionaryEntryInput | null {
+  const input = body as DictionaryEntryInput;
+  if (!input || typeof input.term !== 'string' || !input.term.trim()
+    || typeof input.expansion !== 'string' || !input.expansion.trim()
+    || !isOptionalString(input.maleForm) || !isOptionalString(input.femaleForm)
+    || !isOptionalString(input.note)
+    || (input.discouraged !== undefined && typeof input.discouraged !== 'boolean')) {
+    return null;
+  }
+
+  return {
+    term: input.term.trim(),
+    expansion: input.expansion.trim(),
+    maleForm: input.maleForm?.trim() || undefined,
+    femaleForm: input.femaleForm?.trim() || undefined,
+    discouraged: input.discouraged || undefined,
+    note: input.note?.trim() || undefined,
+  };
+}
+
+/**
+ * Whether another entry has the same term, written with either kind of
+ * quote marks (פ"נ and פ״נ are one term, as lookups treat them)
+ */
+async function isDuplicateTerm(term: string, exceptId?: string): Promise<boolean> {
+  const normalized = normalizeQuotes(term);
+  const entries = await loadDictionary();
+  return entries.some((entry) => entry.id !== exceptId && normalizeQuotes(entry.term) === normalized);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const { id } = req.query;
+
+    if (req.method === 'GET') {
+      const entries = await loadDictionary();
+      return res.status(200).json({ success: true, entries });
+    }
+
+    if (req.method === 'POST') {
+      const input = parseEntryInput(req.body);
+      if (!input) {
+        return res.status(400).json({ error: 'term and expansion are required' });
+      }
+
+      if (await isDuplicateTerm(input.term)) {
+        return res.status(409).json({ error: 'Entry already exists' });
+      }
+
+      const entry: DictionaryEntry = {
+        id: `entry-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...input,
+        updatedAt: new Date().toISOString(),
+      };
+      await saveDictionaryEntry(entry);
+      return res.status(201).json({ success: true, entry });
+    }
+
+    if (typeof id !== 'string' || !id) {
+      return res.status(400).json({ error: 'id is required' });
+    }
+
+    if (req.method === 'PUT') {
+      const input = parseEntryInput(req.body);
+      if (!input) {
+        return res.status(400).json({ error: 'term and expansion are required' });
+      }
+
+      if (!(await getDictionaryEntry(id))) {
+        return res.status(404).json({ error: 'Entry not found' });
+      }
+      if (await isDuplicateTerm(input.term, id)) {
+        return res.status(409).json({ error: 'Entry already exists' });
+      }
+
+      const entry: DictionaryEntry = { id, ...input, updatedAt: new Date().toISOString() };
+      await saveDictionaryEntry(entry);
+      return res.status(200).json({ success: true, entry });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!(await deleteDictionaryEntry(id))) {
+        return res.status(404).json({ error: 'Entry not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Dictionary error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to access dictionary',
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { loadHouseStyle, saveHouseStyle } from './_lib/houseStyle.js';
+import type { HouseStyleProfile } from '../src/types/proofreader.js';
+import { STONE_SIZES } from '../src/utils/layoutMetrics.js';
+
+function isHouseStyleProfile(value: unknown): value is HouseStyleProfile {
+  const profile = value as HouseStyleProfile;
+  return !!profile
+    && ['ascii', 'hebrew'].includes(profile.quotes)
+    && ['dotted', 'gershayim'].includes(profile.tanatzbah)
+    && ['maqaf', 'hyphen'].includes(profile.dash)
+    && isLineLimits(profile.lineLimits);
+}
+
+function isLineLimits(value: unknown): boolean {
+  if (value === undefined) return true;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([size, limit]) =>
+    Object.hasOwn(STONE_SIZES, size) && Number.isInteger(limit) && limit > 0 && limit <= 200);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, profile: await loadHouseStyle() });
+    }
+
+    if (req.method === 'PUT') {
+      if (!isHouseStyleProfile(req.body)) {
+        return res.status(400).json({ error: 'Invalid house style profile' });
+      }
+
+      const { quotes, tanatzbah, dash, lineLimits } = req.body;
+      const profile: HouseStyleProfile = {
+        quotes,
+        tanatzbah,
+        dash,
+        lineLimits,
+        updatedAt: new Date().toISOString(),
+      };
+      await saveHouseStyle(profile);
+
+      return res.status(200).json({ success: true, profile });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('House style error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to access house style',
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { kv } from '@vercel/kv';
+import type { ConfirmedName } from '../src/types/proofreader.js';
+
+// Hash of spelling -> ConfirmedName
+const CONFIRMED_NAMES_KEY = 'names:confirmed';
+
+function parseNameInput(body: unknown): ConfirmedName | null {
+  const input = body as ConfirmedName;
+  if (!input || typeof input.spelling !== 'string' || !/^[א-ת][א-ת '-]*$/.test(input.spelling.trim())
+    || !['given', 'family'].includes(input.kind)) {
+    return null;
+  }
+  return { spelling: input.spelling.trim(), kind: input.kind };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method === 'GET') {
+      const names = await kv.hgetall<Record<string, ConfirmedName>>(CONFIRMED_NAMES_KEY);
+      return res.status(200).json({ success: true, names: Object.values(names ?? {}) });
+    }
+
+    if (req.method === 'POST') {
+      const input = parseNameInput(req.body);
+      if (!input) {
+        return res.status(400).json({ error: 'A Hebrew spelling and a kind (given/family) are required' });
+      }
+
+      const name: ConfirmedName = { ...input, confirmedAt: new Date().toISOString() };
+      await kv.hset(CONFIRMED_NAMES_KEY, { [name.spelling]: name });
+      return res.status(201).json({ success: true, name });
+    }
+
+    if (req.method === 'DELETE') {
+      const { spelling } = req.query;
+      if (typeof spelling !== 'string' || !spelling) {
+        return res.status(400).json({ error: 'spelling is required' });
+      }
+      if ((await kv.hdel(CONFIRMED_NAMES_KEY, spelling)) === 0) {
+        return res.status(404).json({ error: 'Name not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Names error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to access name lexicon',
+    });
+  }
+}
@@ -1,148 +1,163 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { loadDictionary, formatDictionaryForPrompt } from './_lib/dictionary.js';
+import { loadHouseStyle, formatHouseStyleForPrompt } from './_lib/houseStyle.js';
+import { getPrompt, promptLabel, renderPrompt } from './_lib/prompts.js';
+import { DEFAULT_PROVIDER, PROVIDERS, isProviderId } from './_lib/providers.js';
+import { formatSchemaErrors, parseProofreadResponse } from '../src/utils/proofreadSchema.js';
+import { DEFAULT_MEMORIAL_DICTIONARY } from '../src/utils/hebrewTextUtils.js';
+import { DEFAULT_HOUSE_STYLE } from '../src/utils/houseStyle.js';
+import type { ProofreadErrorCode } from '../src/types/proofreader.js';
+
+// Time for a page, retries and a repair included, within the function's limit
+const REQUEST_DEADLINE_MS = 55_000;
+
+// Our status for each failure; the provider's own status is kept in details
+const ERROR_STATUS: Record<ProofreadErrorCode, number> = {
+  bad_request: 400,
+  not_configured: 500,
+  auth_failed: 502,
+  rate_limited: 429,
+  provider_unavailable: 503,
+  timeout: 504,
+  invalid_response: 502,
+  network: 502,
+  unknown: 500,
+};
+
+async function loadPromptDictionary(): Promise<string> {
+  try {
+    return formatDictionaryForPrompt(await loadDictionary());
+  } catch (error) {
+    console.error('Dictionary load error, using built-in entries:', error);
+    return formatDictionaryForPrompt(DEFAULT_MEMORIAL_DICTIONARY);
+  }
+}
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-const API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
-
-const PROOFREADING_PROMPT = `אתה מומחה להגהת טקסטים עבריים על מצבות. נא לנתח את התמונה הזו ולהחזיר JSON בלבד.
-
-## חשוב - זיהוי מבנה:
-התמונה עשויה להכיל מספר חלקים/פאנלים נפרדים של מצבות (למשל 2-3 מצבות בתמונה אחת).
-זהה כל חלק בנפרד והפרד ביניהם ב-rawText עם קו מפריד: "────────────────"
-
-## משימות:
-1. חלץ את כל הטקסט העברי מהתמונה - קרא כל מילה בדיוק כפי שהיא מופיעה
-2. זהה כל חלק/פאנל בתמונה בנפרד (אם יש מספר מצבות בתמונה)
-3. זהה את מבנה כל מצבה (כותרת משפחה, הנצחות נפרדות לכל נפטר)
-4. בדוק שגיאות כתיב ודקדוק
-5. וודא שהקיצורים נכונים
-6. זהה ציטוטים תנ"כיים ובדוק דיוקם
-
-## קיצורים נפוצים שצריכים לבדוק:
-- פ"נ = פה נטמן/נטמנה (לא פ״נ או פנ)
-- ז"ל = זכרונו/ה לברכה
-- ת.נ.צ.ב.ה = תהא נשמתו/ה צרורה בצרור החיים
-- ב"ר = בן/בת רבי
-- נפ' = נפטר/ה
-
-## בדיקות דקדוק:
-- התאמת מין: בן לזכר, בת לנקבה
-- נפטר לזכר, נפטרה לנקבה
-- זכרונו לזכר, זכרונה לנקבה
-- סמיכות נכונה
-- כתיב עקבי
-
-## פורמט JSON נדרש:
-{
-  "extractedText": {
-    "rawText": "כל הטקסט כפי שנקרא מהתמונה - מילה במילה",
-    "familyName": "שם המשפחה מהכותרת",
-    "memorials": [
-      {
-        "name": "שם הנפטר",
-        "relationship": "בעלי, אבינו, סבנו וחמנו היקר",
-        "parentNames": "בן/בת פלוני ופלונית",
-        "hebrewDeathDate": "י\\"א סיון תשע\\"ט",
-        "gregorianYears": "1938 - 2019",
-        "quote": "ציטוט או פסוק אם יש"
-      }
-    ],
-    "headerFormulas": ["פ\\"נ"],
-    "footerFormulas": ["ת.נ.צ.ב.ה"]
-  },
-  "issues": [
-    {
-      "category": "spelling|grammar|abbreviation|quote_accuracy|missing_element",
-      "severity": "error|warning|suggestion",
-      "originalText": "הטקסט הבעייתי",
-      "suggestedFix": "התיקון המוצע",
-      "explanation": "הסבר בעברית"
-    }
-  ]
+async function loadPromptHouseStyle(): Promise<Record<string, string>> {
+  try {
+    return formatHouseStyleForPrompt(await loadHouseStyle());
+  } catch (error) {
+    console.error('House style load error, using the default:', error);
+    return formatHouseStyleForPrompt(DEFAULT_HOUSE_STYLE);
+  }
 }
 
-חשוב:
-1. החזר JSON בלבד, ללא טקסט נוסף לפני או אחרי
-2. קרא את הטקסט בדיוק כפי שהוא מופיע בתמונה`;
+/**
+ * The proofreading prompt version for a request: the one asked for, the
+ * deployment's PROOFREAD_PROMPT_VERSION (to A/B a new version), or the latest
+ */
+function selectPromptVersion(requested: unknown): number | undefined {
+  const version = requested ?? process.env.PROOFREAD_PROMPT_VERSION;
+  return version === undefined || version === '' ? undefined : Number(version);
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const deadline = Date.now() + REQUEST_DEADLINE_MS;
+
   // Only allow POST
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  // Check API key
-  if (!GEMINI_API_KEY) {
-    return res.status(500).json({ error: 'GEMINI_API_KEY is not configured on the server' });
-  }
-
   try {
-    const { imageBase64, mimeType } = req.body;
+    const { imageBase64, mimeType, provider: providerId = DEFAULT_PROVIDER, promptVersion } = req.body;
 
     if (!imageBase64) {
-      return res.status(400).json({ error: 'imageBase64 is required' });
+      return res.status(400).json({ error: 'imageBase64 is required', code: 'bad_request', retryable: false });
+    }
+
+    if (!isProviderId(providerId)) {
+      return res.status(400).json({ error: `Unknown provider: ${providerId}`, code: 'bad_request', retryable: false });
     }
 
-    const response = await fetch(`${API_URL}?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: PROOFREADING_PROMPT },
-              {
-                inline_data: {
-                  mime_type: mimeType || 'image/png',
-                  data: imageBase64,
-                },
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 4096,
-        },
-      }),
+    // Check API key
+    const provider = PROVIDERS[providerId];
+    const apiKey = process.env[provider.apiKeyEnv] || '';
+    if (!apiKey) {
+      return res.status(500).json({
+        error: `${provider.apiKeyEnv} is not configured on the server`,
+        code: 'not_configured',
+        retryable: false,
+      });
+    }
+
+    const version = selectPromptVersion(promptVersion);
+    const template = getPrompt('proofread', version);
+    if (!template) {
+      return res.status(400).json({ error: `Unknown prompt version: proofread@${version}`, code: 'bad_request', retryable: false });
+    }
+
+    const prompt = renderPrompt(template, {
+      dictionary: await loadPromptDictionary(),
+      ...(await loadPromptHouseStyle()),
     });
 
+    const response = await provider.generate(
+      { prompt, imageBase64, mimeType: mimeType || 'image/png' },
+      apiKey,
+      deadline
+    );
+
     if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gemini API Error:', errorText);
-      return res.status(response.status).json({
-        error: `Gemini API Error: ${response.status}`,
-        details: errorText
+      return res.status(ERROR_STATUS[response.code]).json({
+        error: response.error,
+        code: response.code,
+        retryable: response.retryable,
+        details: { status: response.status, body: response.details },
       });
     }
 
-    const result = await response.json();
-    const textContent = result.candidates?.[0]?.content?.parts?.[0]?.text;
-
-    if (!textContent) {
-      return res.status(500).json({
-        error: 'No text content in Gemini response',
-        rawResponse: result
+    // Parse and validate the JSON; a reply that fails gets one repair round-trip
+    let parsed = parseProofreadResponse(response.text);
+    let repaired = false;
+    if (!parsed.ok) {
+      console.error('Invalid model response, asking for a repair:', formatSchemaErrors(parsed.errors));
+      const repairPrompt = renderPrompt(getPrompt('repair')!, {
+        errors: formatSchemaErrors(parsed.errors),
+        reply: response.text,
+        originalPrompt: prompt,
       });
+      const repair = await provider.generate(
+        { prompt: repairPrompt },
+        apiKey,
+        deadline
+      );
+      if (repair.ok) {
+        parsed = parseProofreadResponse(repair.text);
+        repaired = true;
+      }
     }
 
-    // Parse JSON from response
-    const jsonMatch = textContent.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return res.status(500).json({
-        error: 'Could not find JSON in response',
-        rawResponse: textContent
+    if (!parsed.ok) {
+      return res.status(502).json({
+        error: `Invalid JSON in model response: ${formatSchemaErrors(parsed.errors)}`,
+        code: 'invalid_response',
+        retryable: true,
+        schemaErrors: parsed.errors,
+        rawResponse: response.text,
       });
     }
 
-    const parsed = JSON.parse(jsonMatch[0]);
-    return res.status(200).json({ success: true, data: parsed });
+    if (parsed.errors.length > 0) {
+      console.warn('Model response fields dropped or coerced:', formatSchemaErrors(parsed.errors));
+    }
+
+    return res.status(200).json({
+      success: true,
+      provider: providerId,
+      model: provider.model,
+      promptVersion: promptLabel(template),
+      data: parsed.data,
+      repaired,
+      schemaErrors: parsed.errors,
+    });
 
   } catch (error) {
     console.error('Proofread API error:', error);
     return res.status(500).json({
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      code: 'unknown',
+      retryable: false,
     });
   }
 }
@@ -17,6 +17,7 @@ interface SaveResultRequest {
   result: {
     extractedText: unknown;
     issues: unknown[];
+    modelRuns?: unknown[];  // Model and prompt version per page
   };
 }
 
@@ -28,6 +29,7 @@ interface StoredResult {
   result: {
     extractedText: unknown;
     issues: unknown[];
+    modelRuns?: unknown[];
   };
 }
 
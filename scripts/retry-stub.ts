@@ -0,0 +1,132 @@
+/**
+ * Checks fetchWithRetry against a local stub provider: rate limiting with
+ * Retry-After, overload followed by success, a fatal error and a provider
+ * that never answers, and an adapter given a reply that is not JSON.
+ * Run with `npm run test:retry`.
+ *
+ * The same stub can stand in for a provider behind /api/proofread: run it
+ * with `--serve` and set GEMINI_API_URL or ANTHROPIC_API_URL to
+ * http://localhost:8787/<scenario>, e.g. /rate-limited.
+ */
+
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { PROVIDERS } from '../api/_lib/providers.js';
+import { fetchWithRetry } from '../api/_lib/retry.js';
+
+// A Gemini-shaped reply, so the stub also works behind /api/proofread
+const REPLY = JSON.stringify({
+  candidates: [{ content: { parts: [{ text: '{"extractedText":{"rawText":"פ\\"נ"},"issues":[]}' }] } }],
+});
+
+// Each scenario answers by request number, counted per scenario
+const SCENARIOS: Record<string, (request: number, res: http.ServerResponse) => void> = {
+  'rate-limited': (request, res) => {
+    if (request === 1) {
+      res.writeHead(429, { 'Retry-After': '1' }).end('rate limited');
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(REPLY);
+    }
+  },
+  overloaded: (request, res) => {
+    if (request <= 2) {
+      res.writeHead(503).end('overloaded');
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(REPLY);
+    }
+  },
+  'bad-key': (_, res) => {
+    res.writeHead(401).end('invalid api key');
+  },
+  // Never answers, for timeouts and deadlines
+  hang: () => {},
+  // An outage page from a proxy in front of the provider
+  'not-json': (_, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html><body>Service temporarily unavailable</body></html>');
+  },
+};
+
+function startStub(port: number): Promise<{ server: http.Server; url: string; requests: Map<string, number> }> {
+  const requests = new Map<string, number>();
+  const server = http.createServer((req, res) => {
+    const scenario = (req.url ?? '').split('?')[0].replace(/^\//, '');
+    const count = (requests.get(scenario) ?? 0) + 1;
+    requests.set(scenario, count);
+    const handle = SCENARIOS[scenario];
+    if (handle) {
+      handle(count, res);
+    } else {
+      res.writeHead(404).end(`Unknown scenario: ${scenario}`);
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, () => {
+      const { port: bound } = server.address() as AddressInfo;
+      resolve({ server, url: `http://localhost:${bound}`, requests });
+    });
+  });
+}
+
+async function check() {
+  const { server, url, requests } = await startStub(0);
+  const call = (scenario: string, options: { deadlineMs?: number; attemptTimeoutMs?: number } = {}) =>
+    fetchWithRetry(`${url}/${scenario}`, { method: 'POST' }, {
+      label: 'Stub',
+      deadline: Date.now() + (options.deadlineMs ?? 10_000),
+      attemptTimeoutMs: options.attemptTimeoutMs,
+      baseDelayMs: 50,
+    });
+
+  try {
+    let started = Date.now();
+    const rateLimited = await call('rate-limited');
+    assert.equal(rateLimited.ok, true, 'succeeds after a 429');
+    assert.equal(requests.get('rate-limited'), 2);
+    assert.ok(Date.now() - started >= 1000, 'waits for Retry-After');
+    console.log('✓ 429 with Retry-After is retried after the stated wait');
+
+    const overloaded = await call('overloaded');
+    assert.equal(overloaded.ok, true, 'succeeds after two 503s');
+    assert.equal(requests.get('overloaded'), 3);
+    console.log('✓ 503 is retried with backoff');
+
+    const badKey = await call('bad-key');
+    assert.equal(badKey.ok, false);
+    assert.equal(!badKey.ok && badKey.code, 'auth_failed');
+    assert.equal(requests.get('bad-key'), 1, 'a fatal error is not retried');
+    console.log('✓ 401 fails at once as auth_failed');
+
+    started = Date.now();
+    const hang = await call('hang', { deadlineMs: 1500, attemptTimeoutMs: 500 });
+    assert.equal(!hang.ok && hang.code, 'timeout');
+    assert.ok(Date.now() - started < 2000, 'gives up by the deadline');
+    console.log('✓ a provider that never answers times out by the deadline');
+
+    // Retry-After beyond the deadline: no point waiting
+    requests.delete('rate-limited');
+    const late = await call('rate-limited', { deadlineMs: 500 });
+    assert.equal(!late.ok && late.code, 'rate_limited');
+    assert.equal(requests.get('rate-limited'), 1);
+    console.log('✓ a Retry-After past the deadline returns rate_limited without waiting');
+
+    process.env.GEMINI_API_URL = `${url}/not-json`;
+    const notJson = await PROVIDERS.gemini.generate({ prompt: 'test' }, 'stub-key', Date.now() + 5000);
+    assert.equal(!notJson.ok && notJson.code, 'invalid_response');
+    assert.equal(requests.get('not-json'), 1);
+    console.log('✓ a reply that is not JSON fails as invalid_response');
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+}
+
+if (process.argv.includes('--serve')) {
+  startStub(8787).then(({ url }) => console.log(`Stub provider listening on ${url}/{${Object.keys(SCENARIOS).join(',')}}`));
+} else {
+  check().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
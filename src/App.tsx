@@ -1,8 +1,12 @@
+import { useState } from 'react';
 import { PDFProofreader } from './components/proofreader';
+import { DictionaryAdmin } from './components/admin';
 
 const APP_VERSION = '1.1.0';
 
 function App() {
+  const [view, setView] = useState<'proofreader' | 'dictionary'>('proofreader');
+
   return (
     <div className="app">
       <header className="app-header" style={{ position: 'relative' }}>
@@ -16,12 +20,23 @@ function App() {
         }}>
           v{APP_VERSION}
         </span>
+        <button
+          className="btn btn-secondary"
+          onClick={() => setView(view === 'proofreader' ? 'dictionary' : 'proofreader')}
+          style={{ position: 'absolute', right: '1rem', top: '1rem', padding: '0.25rem 0.75rem' }}
+        >
+          {view === 'proofreader' ? 'מילון קיצורים' : 'חזרה לבדיקה'}
+        </button>
         <h1>בודק הגהה למצבות</h1>
-        <p>העלו קובץ לבדיקת שגיאות כתיב, דקדוק ותאריכים</p>
+        <p>
+          {view === 'proofreader'
+            ? 'העלו קובץ לבדיקת שגיאות כתיב, דקדוק ותאריכים'
+            : 'ניהול הקיצורים והנוסחים שהבודק מכיר'}
+        </p>
       </header>
 
       <main className="app-main">
-        <PDFProofreader />
+        {view === 'proofreader' ? <PDFProofreader /> : <DictionaryAdmin />}
       </main>
 
       <footer style={{
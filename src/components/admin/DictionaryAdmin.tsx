@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import type { DictionaryEntry } from '../../types/proofreader';
+import {
+  getDictionary,
+  saveDictionaryEntry,
+  deleteDictionaryEntry,
+} from '../../services/dictionary';
+import type { DictionaryEntryInput } from '../../services/dictionary';
+import { setMemorialDictionary } from '../../utils/hebrewTextUtils';
+
+const EMPTY_ENTRY: DictionaryEntryInput = {
+  term: '',
+  expansion: '',
+  maleForm: '',
+  femaleForm: '',
+  discouraged: false,
+  note: '',
+};
+
+export function DictionaryAdmin() {
+  const [entries, setEntries] = useState<DictionaryEntry[]>([]);
+  const [form, setForm] = useState<DictionaryEntryInput>(EMPTY_ENTRY);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyEntries = (next: DictionaryEntry[]) => {
+    const sorted = [...next].sort((a, b) => a.term.localeCompare(b.term, 'he'));
+    setEntries(sorted);
+    setMemorialDictionary(sorted);
+  };
+
+  useEffect(() => {
+    getDictionary().then((response) => {
+      if (response.success && response.entries) {
+        applyEntries(response.entries);
+      } else {
+        setError(response.error || 'טעינת המילון נכשלה');
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const resetForm = () => {
+    setForm(EMPTY_ENTRY);
+    setEditingId(null);
+  };
+
+  const handleEdit = (entry: DictionaryEntry) => {
+    setForm({
+      term: entry.term,
+      expansion: entry.expansion,
+      maleForm: entry.maleForm ?? '',
+      femaleForm: entry.femaleForm ?? '',
+      discouraged: entry.discouraged ?? false,
+      note: entry.note ?? '',
+    });
+    setEditingId(entry.id);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const response = await saveDictionaryEntry(form, editingId ?? undefined);
+    if (!response.success || !response.entry) {
+      setError(response.error || 'השמירה נכשלה');
+      return;
+    }
+
+    const saved = response.entry;
+    applyEntries(editingId
+      ? entries.map((entry) => (entry.id === editingId ? saved : entry))
+      : [...entries, saved]);
+    resetForm();
+  };
+
+  const handleDelete = async (entry: DictionaryEntry) => {
+    if (!window.confirm(`למחוק את "${entry.term}" מהמילון?`)) return;
+
+    const response = await deleteDictionaryEntry(entry.id);
+    if (!response.success) {
+      setError(response.error || 'המחיקה נכשלה');
+      return;
+    }
+
+    applyEntries(entries.filter((item) => item.id !== entry.id));
+    if (editingId === entry.id) resetForm();
+  };
+
+  const update = (changes: Partial<DictionaryEntryInput>) => setForm((current) => ({ ...current, ...changes }));
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+      <div className="card">
+        <div className="card-body">
+          <h3 style={{ marginBottom: '1rem' }}>{editingId ? 'עריכת ערך' : 'הוספת קיצור או נוסח'}</h3>
+          <form onSubmit={handleSubmit} className="dictionary-form">
+            <label>
+              קיצור / נוסח
+              <input value={form.term} onChange={(e) => update({ term: e.target.value })} required />
+            </label>
+            <label>
+              פירוש
+              <input value={form.expansion} onChange={(e) => update({ expansion: e.target.value })} required />
+            </label>
+            <label>
+              לזכר
+              <input value={form.maleForm} onChange={(e) => update({ maleForm: e.target.value })} />
+            </label>
+            <label>
+              לנקבה
+              <input value={form.femaleForm} onChange={(e) => update({ femaleForm: e.target.value })} />
+            </label>
+            <label>
+              הערה
+              <input value={form.note} onChange={(e) => update({ note: e.target.value })} />
+            </label>
+            <label style={{ flexDirection: 'row', alignItems: 'center', gap: '0.5rem' }}>
+              <input
+                type="checkbox"
+                checked={form.discouraged ?? false}
+                onChange={(e) => update({ discouraged: e.target.checked })}
+              />
+              לא מומלץ לשימוש
+            </label>
+            <div style={{ display: 'flex', gap: '0.75rem' }}>
+              <button type="submit" className="btn btn-primary">
+                {editingId ? 'שמור שינויים' : 'הוסף למילון'}
+              </button>
+              {editingId && (
+                <button type="button" className="btn btn-secondary" onClick={resetForm}>
+                  ביטול
+                </button>
+              )}
+            </div>
+          </form>
+          {error && (
+            <p style={{ color: 'var(--error-color)', marginTop: '0.75rem' }}>{error}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3 style={{ margin: 0 }}>מילון קיצורים ונוסחים ({entries.length})</h3>
+        </div>
+        <div className="card-body" style={{ overflowX: 'auto' }}>
+          {loading ? (
+            <p style={{ color: 'var(--text-secondary)' }}>טוען...</p>
+          ) : (
+            <table className="dictionary-table">
+              <thead>
+                <tr>
+                  <th>קיצור / נוסח</th>
+                  <th>פירוש</th>
+                  <th>לזכר</th>
+                  <th>לנקבה</th>
+                  <th>הערה</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className={entry.discouraged ? 'discouraged' : undefined}>
+                    <td>
+                      <strong>{entry.term}</strong>
+                      {entry.discouraged && <span className="badge badge-warning" style={{ marginRight: '0.5rem' }}>לא מומלץ</span>}
+                    </td>
+                    <td>{entry.expansion}</td>
+                    <td>{entry.maleForm}</td>
+                    <td>{entry.femaleForm}</td>
+                    <td>{entry.note}</td>
+                    <td style={{ whiteSpace: 'nowrap' }}>
+                      <button className="btn btn-secondary" onClick={() => handleEdit(entry)} style={{ padding: '0.25rem 0.75rem' }}>
+                        ערוך
+                      </button>{' '}
+                      <button className="btn btn-secondary" onClick={() => handleDelete(entry)} style={{ padding: '0.25rem 0.75rem' }}>
+                        מחק
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
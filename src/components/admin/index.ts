@@ -0,0 +1 @@
+export { DictionaryAdmin } from './DictionaryAdmin';
@@ -1,4 +1,5 @@
-import type { DateValidationResult } from '../../types/proofreader';
+import type { AgeRange, DateValidationResult } from '../../types/proofreader';
+import { intToHebrewNumeral } from '../../utils/hebrewTextUtils';
 
 interface DateValidationPanelProps {
   validation: DateValidationResult;
@@ -6,7 +7,18 @@ interface DateValidationPanelProps {
 }
 
 export function DateValidationPanel({ validation, personName }: DateValidationPanelProps) {
-  const { hebrewDate, gregorianDate, isConsistent, discrepancyExplanation } = validation;
+  const {
+    hebrewDate,
+    gregorianDate,
+    isConsistent,
+    expectedHebrewDate,
+    expectedGregorianDate,
+    discrepancyExplanation,
+    ageValidation,
+  } = validation;
+
+  const formatAge = (range?: AgeRange) =>
+    range ? (range.min === range.max ? `${range.min}` : `${range.min}-${range.max}`) : null;
 
   return (
     <div className={`date-panel ${isConsistent ? 'match' : 'mismatch'}`}>
@@ -20,6 +32,21 @@ export function DateValidationPanel({ validation, personName }: DateValidationPa
             שנה: {hebrewDate.year}
           </div>
         )}
+        {hebrewDate?.specialDay && hebrewDate.day && (
+          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+            {hebrewDate.specialDay} = {intToHebrewNumeral(hebrewDate.day)} {hebrewDate.month}
+          </div>
+        )}
+        {hebrewDate?.unparsed && hebrewDate.unparsed.length > 0 && (
+          <div style={{ fontSize: '0.75rem', color: 'var(--warning-color)' }}>
+            לא פוענח: {hebrewDate.unparsed.map((token) => token.text).join(', ')}
+          </div>
+        )}
+        {!isConsistent && expectedHebrewDate && (
+          <div style={{ fontSize: '0.75rem', color: 'var(--error-color)' }}>
+            צפוי: {expectedHebrewDate}
+          </div>
+        )}
       </div>
 
       <div>
@@ -32,8 +59,33 @@ export function DateValidationPanel({ validation, personName }: DateValidationPa
             שנה: {gregorianDate.year}
           </div>
         )}
+        {!isConsistent && expectedGregorianDate && (
+          <div style={{ fontSize: '0.75rem', color: 'var(--error-color)' }}>
+            צפוי: {expectedGregorianDate}
+          </div>
+        )}
       </div>
 
+      {ageValidation && (
+        <div style={{ gridColumn: '1 / -1', fontSize: '0.875rem' }}>
+          <div className="date-label">גיל ותאריך לידה</div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem' }}>
+            {ageValidation.statedAge !== undefined && <span>גיל נקוב: {ageValidation.statedAge}</span>}
+            {ageValidation.gregorianAge && <span>לפי הלוח הלועזי: {formatAge(ageValidation.gregorianAge)}</span>}
+            {ageValidation.hebrewAge && <span>לפי הלוח העברי: {formatAge(ageValidation.hebrewAge)}</span>}
+            {ageValidation.birthDate?.hebrewDate?.rawText && (
+              <span>לידה: {ageValidation.birthDate.hebrewDate.rawText}</span>
+            )}
+          </div>
+          <div style={{
+            marginTop: '0.25rem',
+            color: ageValidation.isConsistent ? 'var(--success-color)' : 'var(--error-color)',
+          }}>
+            {ageValidation.isConsistent ? '✓ הגיל ותאריכי הלידה תואמים' : `⚠️ ${ageValidation.discrepancyExplanation}`}
+          </div>
+        </div>
+      )}
+
       {personName && (
         <div style={{ gridColumn: '1 / -1', fontSize: '0.875rem', fontWeight: 600 }}>
           {personName}
@@ -61,6 +113,11 @@ export function DateValidationPanel({ validation, personName }: DateValidationPa
           fontSize: '0.875rem',
         }}>
           ✓ התאריכים תואמים
+          {discrepancyExplanation && (
+            <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.25rem' }}>
+              {discrepancyExplanation}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,5 +1,10 @@
-import type { ProofreadingIssue } from '../../types/proofreader';
-import { CATEGORY_LABELS, SEVERITY_LABELS } from '../../types/proofreader';
+import type { ConfusionVerdict, ProofreadingIssue } from '../../types/proofreader';
+import { CATEGORY_LABELS, PROVIDER_LABELS, SEVERITY_LABELS } from '../../types/proofreader';
+
+const CONFUSION_LABELS: Record<ConfusionVerdict, string> = {
+  engraving: 'כנראה שגיאה בהגהה',
+  ocr: 'כנראה קריאה שגויה',
+};
 
 interface ErrorItemProps {
   issue: ProofreadingIssue;
@@ -7,6 +12,10 @@ interface ErrorItemProps {
 
 export function ErrorItem({ issue }: ErrorItemProps) {
   const severityClass = issue.severity;
+  const context = issue.location?.context;
+  const span = issue.location?.span;
+  // Only set in double-check mode: which of the two models reported the issue
+  const providers = issue.providers;
 
   return (
     <div className={`issue-card ${severityClass}`}>
@@ -17,6 +26,11 @@ export function ErrorItem({ issue }: ErrorItemProps) {
         <span className={`badge badge-${severityClass}`}>
           {SEVERITY_LABELS[issue.severity]}
         </span>
+        {providers && (
+          <span className={`badge ${providers.length > 1 ? 'badge-success' : 'badge-suggestion'}`}>
+            {providers.length > 1 ? 'שני המודלים' : `${PROVIDER_LABELS[providers[0]]} בלבד`}
+          </span>
+        )}
       </div>
 
       <div className="issue-text">
@@ -31,9 +45,29 @@ export function ErrorItem({ issue }: ErrorItemProps) {
 
       <p className="issue-explanation">{issue.explanation}</p>
 
-      {issue.location?.context && (
+      {issue.confusion && (
+        <p style={{ fontSize: '0.75rem', marginTop: '0.5rem' }}>
+          <span className={`badge ${issue.confusion.verdict === 'ocr' ? 'badge-suggestion' : 'badge-warning'}`}>
+            {CONFUSION_LABELS[issue.confusion.verdict]}
+          </span>
+          <span style={{ color: 'var(--text-secondary)', marginRight: '0.5rem' }}>
+            {issue.confusion.reasons.join('; ')}
+          </span>
+        </p>
+      )}
+
+      {context && (
         <p style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.5rem' }}>
-          הקשר: {issue.location.context}
+          הקשר:{' '}
+          {span ? (
+            <>
+              {context.slice(0, span.start)}
+              <mark className="issue-span">{context.slice(span.start, span.end)}</mark>
+              {context.slice(span.end)}
+            </>
+          ) : (
+            context
+          )}
         </p>
       )}
     </div>
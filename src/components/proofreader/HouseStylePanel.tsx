@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import type { DashStyle, HouseStyleProfile, QuoteStyle, StoneSize, TanatzbahStyle } from '../../types/proofreader';
+import { getHouseStyle, saveHouseStyle } from '../../services/houseStyle';
+import { DEFAULT_HOUSE_STYLE } from '../../utils/houseStyle';
+import { STONE_SIZES, getLineLimit } from '../../utils/layoutMetrics';
+
+const QUOTE_OPTIONS: Array<{ value: QuoteStyle; label: string }> = [
+  { value: 'ascii', label: 'מירכאות רגילות - פ"נ, י"א' },
+  { value: 'hebrew', label: 'גרשיים עבריים - פ״נ, י״א' },
+];
+
+const TANATZBAH_OPTIONS: Array<{ value: TanatzbahStyle; label: string }> = [
+  { value: 'dotted', label: 'ת.נ.צ.ב.ה' },
+  { value: 'gershayim', label: 'תנצב"ה' },
+];
+
+const DASH_OPTIONS: Array<{ value: DashStyle; label: string }> = [
+  { value: 'hyphen', label: 'מקף רגיל - בית-שמש' },
+  { value: 'maqaf', label: 'מקף עברי - בית־שמש' },
+];
+
+export function HouseStylePanel() {
+  const [profile, setProfile] = useState<HouseStyleProfile>(DEFAULT_HOUSE_STYLE);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+
+  useEffect(() => {
+    getHouseStyle().then((response) => {
+      if (response.success && response.profile) {
+        setProfile(response.profile);
+      }
+    });
+  }, []);
+
+  const update = (changes: Partial<HouseStyleProfile>) => {
+    setProfile((current) => ({ ...current, ...changes }));
+    setSaveStatus('idle');
+  };
+
+  const handleSave = async () => {
+    setSaveStatus('saving');
+    const response = await saveHouseStyle(profile);
+    if (response.success && response.profile) {
+      setProfile(response.profile);
+      setSaveStatus('saved');
+    } else {
+      setSaveStatus('error');
+    }
+  };
+
+  const updateLineLimit = (size: StoneSize, value: number) => {
+    if (!Number.isInteger(value) || value < 1) return;
+    update({ lineLimits: { ...profile.lineLimits, [size]: value } });
+  };
+
+  const selectStyle = { padding: '0.25rem 0.5rem', fontFamily: 'inherit' };
+
+  return (
+    <div className="card">
+      <div className="card-body">
+        <h3 style={{ marginBottom: '1rem' }}>סגנון הבית</h3>
+        <div className="house-style-grid">
+          <label>
+            מירכאות וגרש
+            <select
+              value={profile.quotes}
+              onChange={(e) => update({ quotes: e.target.value as QuoteStyle })}
+              style={selectStyle}
+            >
+              {QUOTE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            תהא נשמתו צרורה בצרור החיים
+            <select
+              value={profile.tanatzbah}
+              onChange={(e) => update({ tanatzbah: e.target.value as TanatzbahStyle })}
+              style={selectStyle}
+            >
+              {TANATZBAH_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            חיבור מילים
+            <select
+              value={profile.dash}
+              onChange={(e) => update({ dash: e.target.value as DashStyle })}
+              style={selectStyle}
+            >
+              {DASH_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <h4 style={{ margin: '1rem 0 0.5rem' }}>מקסימום תווים בשורה</h4>
+        <div className="house-style-grid">
+          {(Object.keys(STONE_SIZES) as StoneSize[]).map((size) => (
+            <label key={size}>
+              מצבה {STONE_SIZES[size].label}
+              <input
+                type="number"
+                min={1}
+                value={getLineLimit(size, profile)}
+                onChange={(e) => updateLineLimit(size, Number(e.target.value))}
+                style={selectStyle}
+              />
+            </label>
+          ))}
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginTop: '1rem' }}>
+          <button className="btn btn-primary" onClick={handleSave} disabled={saveStatus === 'saving'}>
+            שמור סגנון
+          </button>
+          {saveStatus === 'saving' && (
+            <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>שומר...</span>
+          )}
+          {saveStatus === 'saved' && (
+            <span style={{ fontSize: '0.75rem', color: 'var(--success-color)' }}>נשמר לכל המשתמשים</span>
+          )}
+          {saveStatus === 'error' && (
+            <span style={{ fontSize: '0.75rem', color: 'var(--error-color)' }}>השמירה נכשלה</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import type { LayoutMetrics } from '../../types/proofreader';
+import { STONE_SIZES } from '../../utils/layoutMetrics';
+
+interface LayoutMetricsPanelProps {
+  metrics: LayoutMetrics;
+}
+
+// Mirrored lines differing by more than this share of the wider one look unbalanced
+const UNBALANCED_DIFFERENCE = 0.3;
+
+export function LayoutMetricsPanel({ metrics }: LayoutMetricsPanelProps) {
+  const unbalanced = metrics.mirroredPairs.filter((pair) => pair.widthDifference > UNBALANCED_DIFFERENCE);
+
+  return (
+    <div className="layout-metrics-panel">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <strong>עמוד {metrics.page} - מצבה {STONE_SIZES[metrics.stoneSize].label}</strong>
+        <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+          עד {metrics.maxLettersPerLine} תווים בשורה · לפי {metrics.source === 'textLayer' ? 'שכבת הטקסט של ה-PDF' : 'הטקסט שחולץ'}
+        </span>
+      </div>
+
+      <table className="layout-lines">
+        <tbody>
+          {metrics.lines.map((line, index) => (
+            <tr key={index} className={line.overLimit ? 'layout-line-over' : undefined}>
+              <td>{index + 1}</td>
+              <td dir="auto">{line.text}</td>
+              <td>
+                {line.letters}
+                {index === metrics.longestLine && <span className="badge badge-suggestion" style={{ marginRight: '0.5rem' }}>הארוכה</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {unbalanced.length > 0 && (
+        <p style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>
+          שורות מקבילות לא מאוזנות:{' '}
+          {unbalanced
+            .map((pair) => `${pair.top + 1} מול ${pair.bottom + 1} (${Math.round(pair.widthDifference * 100)}%)`)
+            .join(', ')}
+        </p>
+      )}
+
+      <p style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>
+        <strong>סה"כ {metrics.totalLetters} תווים</strong>
+        {metrics.memorialLetters.map((memorial, index) => (
+          <span key={index} style={{ marginRight: '0.75rem' }}>{memorial.memorialName}: {memorial.letters}</span>
+        ))}
+        {metrics.sharedLetters > 0 && (
+          <span style={{ marginRight: '0.75rem', color: 'var(--text-secondary)' }}>משותף: {metrics.sharedLetters}</span>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import type { NameCheck } from '../../types/proofreader';
+import { confirmName } from '../../services/names';
+
+interface NameCheckPanelProps {
+  checks: NameCheck[];
+}
+
+const STATUS_LABELS: Record<NameCheck['status'], string> = {
+  rare: 'כתיב נדיר',
+  unknown: 'כתיב לא מוכר',
+};
+
+export function NameCheckPanel({ checks }: NameCheckPanelProps) {
+  const [confirmed, setConfirmed] = useState<Set<string>>(new Set());
+  const [failed, setFailed] = useState<string | null>(null);
+
+  const handleConfirm = async (check: NameCheck) => {
+    setFailed(null);
+    const response = await confirmName(check.word, check.kind);
+    if (response.success) {
+      setConfirmed((current) => new Set(current).add(check.word));
+    } else {
+      setFailed(check.word);
+    }
+  };
+
+  return (
+    <div className="name-check-panel">
+      <ul style={{ listStyle: 'none', fontSize: '0.875rem', lineHeight: 2 }}>
+        {checks.map((check) => (
+          <li key={check.word} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.75rem' }}>
+            <span>
+              <strong>{check.word}</strong>
+              <span className="badge badge-warning" style={{ marginRight: '0.5rem' }}>{STATUS_LABELS[check.status]}</span>
+              <span style={{ color: 'var(--text-secondary)', marginRight: '0.5rem' }}>
+                נפוץ: {check.commonSpellings.join(', ')}
+              </span>
+            </span>
+            {confirmed.has(check.word) ? (
+              <span style={{ fontSize: '0.75rem', color: 'var(--success-color)' }}>נוסף למאגר</span>
+            ) : (
+              <button className="btn btn-secondary" onClick={() => handleConfirm(check)} style={{ padding: '0.25rem 0.75rem' }}>
+                {failed === check.word ? 'נסה שוב' : 'אשר כתיב'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <p style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.25rem' }}>
+        כתיב שאושר מול המשפחה נוסף למאגר השמות ולא יסומן שוב
+      </p>
+    </div>
+  );
+}
@@ -1,11 +1,38 @@
 import { useState, useCallback } from 'react';
-import type { ProofreadingReport, ProcessingStatus, DateValidationResult, ProofreadingIssue, MemorialEntry } from '../../types/proofreader';
+import type { ProofreadingReport, ProcessingStatus, DateValidationResult, ProofreadingIssue, MemorialEntry, NameCheck, QuoteMatch, TemplateId, TemplateSelection, TextBlock, StoneSize, LayoutMetrics, TextLayerLine, ProviderId, ReadingDifference, ModelRun, PageFailure, UnmatchedQuote } from '../../types/proofreader';
 import { pdfToImages, createPreviewUrl, revokePreviewUrl } from '../../utils/pdfToImage';
-import { proofreadImageWithGemini, isGeminiConfigured } from '../../services/gemini';
+import { PROOFREAD_PROVIDERS, DEFAULT_PROVIDER } from '../../services/proofread';
+import { PROOFREAD_ERROR_MESSAGES } from '../../types/proofreader';
 import { saveResult, blobToBase64ForStorage } from '../../services/history';
-import { validateDateConsistency } from '../../utils/hebrewDateValidator';
+import { getHouseStyle } from '../../services/houseStyle';
+import { loadMemorialDictionary } from '../../services/dictionary';
+import { loadConfirmedNames } from '../../services/names';
+import {
+  validateDateConsistency,
+  validateHebrewCalendarDate,
+  validateAgeConsistency,
+} from '../../utils/hebrewDateValidator';
+import { getAllYahrzeits } from '../../utils/yahrzeit';
+import { checkGenderAgreement } from '../../utils/genderAgreement';
+import { mergeIssues } from '../../utils/issueMerge';
+import { checkHouseStyle, DEFAULT_HOUSE_STYLE } from '../../utils/houseStyle';
+import { checkDiscouragedTerms } from '../../utils/abbreviationCheck';
+import { checkMemorialQuotes, withoutRefutedQuoteIssues } from '../../utils/quoteMatcher';
+import { checkMemorialNames } from '../../utils/nameLexicon';
+import { checkTemplate, findFormulas, selectTemplate } from '../../utils/templateProfiles';
+import { annotateLetterConfusions, findLetterConfusions, letterConfusionIssues } from '../../utils/confusableLetters';
+import { checkFinalLetters } from '../../utils/finalLetters';
+import { checkNumberOrder } from '../../utils/numberOrder';
+import { checkForeignText, getTextBlocks } from '../../utils/foreignText';
+import { checkTransliteratedNames } from '../../utils/transliteration';
+import { computeLayoutMetrics, getLineLimit, layoutIssues } from '../../utils/layoutMetrics';
+import { compareReadings, mergeProviderIssues } from '../../utils/consensus';
 import { PDFUploader } from './PDFUploader';
 import { ProofreadingReport as ReportDisplay } from './ProofreadingReport';
+import { HouseStylePanel } from './HouseStylePanel';
+import { TemplatePicker } from './TemplatePicker';
+import { StoneSizePicker } from './StoneSizePicker';
+import { ProviderPicker } from './ProviderPicker';
 
 function isImageFile(file: File): boolean {
   return file.type.startsWith('image/');
@@ -18,6 +45,10 @@ export function PDFProofreader() {
   const [error, setError] = useState<string | null>(null);
   const [previewUrls, setPreviewUrls] = useState<string[]>([]);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [templateChoice, setTemplateChoice] = useState<TemplateId | 'auto'>('auto');
+  const [stoneSize, setStoneSize] = useState<StoneSize>('standard');
+  const [providerId, setProviderId] = useState<ProviderId>(DEFAULT_PROVIDER);
+  const [consensus, setConsensus] = useState(false);
 
   const processFile = useCallback(async (file: File) => {
     setError(null);
@@ -27,14 +58,15 @@ export function PDFProofreader() {
     previewUrls.forEach(url => revokePreviewUrl(url));
     setPreviewUrls([]);
 
-    // Check API configuration
-    if (!isGeminiConfigured()) {
-      setError('Gemini API key is not configured. Please set VITE_GEMINI_API_KEY in .env.local');
-      return;
-    }
+    const provider = PROOFREAD_PROVIDERS[providerId];
+    // In double-check mode every page is also read by a second provider
+    const secondProvider = consensus
+      ? Object.values(PROOFREAD_PROVIDERS).find((other) => other.id !== providerId)
+      : undefined;
 
     try {
       let images: Blob[];
+      let textLayers: TextLayerLine[][] = [];
       let totalPages: number;
 
       // Step 1: Get images (either from PDF conversion or direct image file)
@@ -55,6 +87,7 @@ export function PDFProofreader() {
           throw new Error(conversionResult.error || 'Failed to convert PDF');
         }
         images = conversionResult.images;
+        textLayers = conversionResult.textLayers ?? [];
         totalPages = images.length;
         console.log(`PDF conversion complete: ${totalPages} page(s)`);
       }
@@ -63,19 +96,86 @@ export function PDFProofreader() {
       const previews = images.map(img => createPreviewUrl(img));
       setPreviewUrls(previews);
 
-      // Step 2: Analyze each page with Gemini
+      // Step 2: Analyze each page with the chosen provider
       setStatus('analyzing');
 
+      // The shared house style and dictionary; local checks fall back to the built-in ones
+      const houseStyleResponse = await getHouseStyle();
+      const houseStyle = houseStyleResponse.profile ?? DEFAULT_HOUSE_STYLE;
+      await loadMemorialDictionary();
+      await loadConfirmedNames();
+
       const allTexts: string[] = [];
-      const allIssues: ProofreadingIssue[] = [];
+      let allIssues: ProofreadingIssue[] = [];
       const allMemorials: MemorialEntry[] = [];
+      const allQuoteMatches: QuoteMatch[] = [];
+      const unmatchedQuotes: UnmatchedQuote[] = [];
+      const allNameChecks: NameCheck[] = [];
+      const headerFormulas: string[] = [];
+      const footerFormulas: string[] = [];
+      const textBlocks: TextBlock[] = [];
+      const layout: LayoutMetrics[] = [];
+      const readingDifferences: ReadingDifference[] = [];
+      const modelRuns: ModelRun[] = [];
+      const pageFailures: PageFailure[] = [];
+      const singleModelPages: number[] = [];
+      let pagesRead = 0;
+      let template: TemplateSelection | undefined;
 
       for (let i = 0; i < totalPages; i++) {
         setStatusMessage(`מנתח טקסט עברי... (עמוד ${i + 1} מתוך ${totalPages})`);
 
-        const proofreadResult = await proofreadImageWithGemini(images[i]);
-        if (!proofreadResult.success) {
-          throw new Error(proofreadResult.error || `Failed to analyze page ${i + 1}`);
+        const [firstResult, secondResult] = await Promise.all([
+          provider.proofreadImage(images[i]),
+          secondProvider?.proofreadImage(images[i]),
+        ]);
+
+        // Which model and prompt version read the page
+        for (const [id, result] of [[provider.id, firstResult], [secondProvider?.id, secondResult]] as const) {
+          if (id && result?.model && result.promptVersion) {
+            modelRuns.push({ page: i + 1, provider: id, model: result.model, promptVersion: result.promptVersion });
+          }
+        }
+
+        // The server has already retried; note each failed reading and go on with the rest
+        const failed = [
+          { id: provider.id, result: firstResult, fallback: secondProvider },
+          { id: secondProvider?.id, result: secondResult, fallback: provider },
+        ].flatMap(({ id, result, fallback }) => (id && result && !result.success ? [{ id, result, fallback }] : []));
+        const unread = !firstResult.success && !secondResult?.success;
+        for (const { id, result, fallback } of failed) {
+          const message = result.error || PROOFREAD_ERROR_MESSAGES.unknown;
+          pageFailures.push({
+            page: i + 1,
+            provider: id,
+            errorCode: result.errorCode ?? 'unknown',
+            message: unread || !fallback ? message : `הבדיקה הכפולה נכשלה, העמוד נבדק על ידי ${fallback.label} בלבד: ${message}`,
+          });
+        }
+        if (unread) {
+          continue;
+        }
+        pagesRead++;
+
+        // Double-check mode: the first provider's reading drives the local
+        // checks; the second one marks where the two read the stone differently.
+        // When one of them fails, the other's reading is used alone and its
+        // issues are badged as that model's only.
+        let proofreadResult = firstResult;
+        if (secondProvider && secondResult && failed.length > 0) {
+          const [readBy, reading] = firstResult.success ? [provider, firstResult] : [secondProvider, secondResult];
+          proofreadResult = { ...reading, issues: mergeProviderIssues([{ provider: readBy.id, issues: reading.issues ?? [] }]) };
+          singleModelPages.push(i + 1);
+        } else if (secondProvider && secondResult) {
+          proofreadResult.issues = mergeProviderIssues([
+            { provider: provider.id, issues: firstResult.issues ?? [] },
+            { provider: secondProvider.id, issues: secondResult.issues ?? [] },
+          ]);
+          readingDifferences.push(...compareReadings(
+            i + 1,
+            { provider: provider.id, rawText: firstResult.extractedText?.rawText ?? '' },
+            { provider: secondProvider.id, rawText: secondResult.extractedText?.rawText ?? '' }
+          ));
         }
 
         if (proofreadResult.extractedText?.rawText) {
@@ -86,11 +186,68 @@ export function PDFProofreader() {
           allIssues.push(...proofreadResult.issues);
         }
 
+        // Local gender-agreement, house-style and dictionary rules, merged with the model's findings
+        if (proofreadResult.extractedText) {
+          const { rawText } = proofreadResult.extractedText;
+          allIssues = mergeIssues(allIssues, checkGenderAgreement(proofreadResult.extractedText));
+          allIssues = mergeIssues(allIssues, checkHouseStyle(rawText, houseStyle));
+          allIssues = mergeIssues(allIssues, checkDiscouragedTerms(rawText));
+
+          // Quotes are checked against the bundled corpus rather than the model's memory
+          const quoteCheck = checkMemorialQuotes(proofreadResult.extractedText.memorials);
+          allIssues = mergeIssues(withoutRefutedQuoteIssues(allIssues, quoteCheck.matches), quoteCheck.issues);
+          allQuoteMatches.push(...quoteCheck.matches);
+          unmatchedQuotes.push(...quoteCheck.unmatched);
+
+          const nameCheck = checkMemorialNames(proofreadResult.extractedText);
+          allIssues = mergeIssues(allIssues, nameCheck.issues);
+          allNameChecks.push(...nameCheck.checks.filter((check) => !allNameChecks.some((c) => c.word === check.word)));
+
+          // Structure against the chosen (or detected) template; formulas the model missed are filled in locally
+          const pageTemplate = selectTemplate(proofreadResult.extractedText, templateChoice);
+          template ??= pageTemplate;
+          allIssues = mergeIssues(allIssues, checkTemplate(proofreadResult.extractedText, pageTemplate.id));
+
+          const formulas = findFormulas(rawText);
+          headerFormulas.push(...proofreadResult.extractedText.headerFormulas, ...formulas.headerFormulas);
+          footerFormulas.push(...proofreadResult.extractedText.footerFormulas, ...formulas.footerFormulas);
+
+          // Words with look-alike letters: is the proof wrong, or did the model misread it?
+          const confusions = findLetterConfusions(proofreadResult.extractedText);
+          allIssues = annotateLetterConfusions(mergeIssues(allIssues, letterConfusionIssues(confusions)), confusions);
+
+          // After the look-alike check, whose fix (ןשרה → ושרה) beats a plain final-form fix
+          allIssues = mergeIssues(allIssues, checkFinalLetters(rawText));
+
+          // Ranges and dates whose numbers were reversed by right-to-left layout
+          allIssues = mergeIssues(allIssues, checkNumberOrder(proofreadResult.extractedText));
+
+          // Russian and English sections, and the transliterated names against the Hebrew ones
+          allIssues = mergeIssues(allIssues, checkForeignText(proofreadResult.extractedText));
+          allIssues = mergeIssues(allIssues, checkTransliteratedNames(proofreadResult.extractedText));
+          textBlocks.push(...getTextBlocks(proofreadResult.extractedText));
+
+          // Line lengths against the chosen stone size, from the PDF text layer when there is one
+          const pageLayout = computeLayoutMetrics(proofreadResult.extractedText, {
+            page: i + 1,
+            stoneSize,
+            maxLettersPerLine: getLineLimit(stoneSize, houseStyle),
+            textLayer: textLayers[i],
+          });
+          layout.push(pageLayout);
+          allIssues = mergeIssues(allIssues, layoutIssues(pageLayout));
+        }
+
         if (proofreadResult.extractedText?.memorials) {
           allMemorials.push(...proofreadResult.extractedText.memorials);
         }
       }
 
+      // Nothing to report when no provider could read any page
+      if (pagesRead === 0) {
+        throw new Error(pageFailures[0].message);
+      }
+
       // Step 3: Validate dates
       setStatus('validating');
       setStatusMessage('מאמת תאריכים...');
@@ -102,7 +259,11 @@ export function PDFProofreader() {
             memorial.hebrewDeathDate || '',
             memorial.gregorianYears || ''
           );
-          dateValidations.push(validation);
+          const ageValidation = validateAgeConsistency(memorial);
+          dateValidations.push(ageValidation ? { ...validation, ageValidation } : validation);
+        }
+        if (memorial.hebrewDeathDate) {
+          allIssues.push(...validateHebrewCalendarDate(memorial.hebrewDeathDate, memorial.name, memorial.gregorianYears));
         }
       }
 
@@ -115,11 +276,23 @@ export function PDFProofreader() {
         extractedText: {
           rawText: allTexts.join('\n\n'),
           memorials: allMemorials,
-          headerFormulas: [],
-          footerFormulas: [],
+          headerFormulas: [...new Set(headerFormulas)],
+          footerFormulas: [...new Set(footerFormulas)],
+          textBlocks,
         },
         issues: allIssues,
         dateValidation: dateValidations,
+        yahrzeits: getAllYahrzeits(allMemorials),
+        quoteMatches: allQuoteMatches,
+        unmatchedQuotes,
+        nameChecks: allNameChecks,
+        template,
+        layout,
+        consensus: secondProvider
+          ? { providers: [provider.id, secondProvider.id], readingDifferences, singleModelPages }
+          : undefined,
+        modelRuns,
+        pageFailures,
         summary: {
           totalIssues: allIssues.length,
           errors: allIssues.filter(i => i.severity === 'error').length,
@@ -143,6 +316,7 @@ export function PDFProofreader() {
           {
             extractedText: newReport.extractedText,
             issues: newReport.issues,
+            modelRuns: newReport.modelRuns,
           }
         );
         if (saveResponse.success) {
@@ -163,7 +337,7 @@ export function PDFProofreader() {
       setStatus('error');
       setStatusMessage('שגיאה בעיבוד');
     }
-  }, [previewUrls]);
+  }, [previewUrls, templateChoice, stoneSize, providerId, consensus]);
 
   const handleReset = () => {
     previewUrls.forEach(url => revokePreviewUrl(url));
@@ -229,6 +403,25 @@ export function PDFProofreader() {
               </div>
             </div>
           )}
+
+          {status === 'idle' && !error && (
+            <TemplatePicker value={templateChoice} onChange={setTemplateChoice} />
+          )}
+
+          {status === 'idle' && !error && (
+            <StoneSizePicker value={stoneSize} onChange={setStoneSize} />
+          )}
+
+          {status === 'idle' && !error && (
+            <ProviderPicker
+              value={providerId}
+              onChange={setProviderId}
+              consensus={consensus}
+              onConsensusChange={setConsensus}
+            />
+          )}
+
+          {status === 'idle' && !error && <HouseStylePanel />}
         </>
       )}
 
@@ -1,13 +1,20 @@
 import type { ProofreadingReport as Report } from '../../types/proofreader';
+import { PROVIDER_LABELS } from '../../types/proofreader';
+import { QUOTE_CORPUS_SIZE } from '../../utils/quoteMatcher';
 import { ErrorItem } from './ErrorItem';
 import { DateValidationPanel } from './DateValidationPanel';
+import { YahrzeitPanel } from './YahrzeitPanel';
+import { QuoteMatchPanel } from './QuoteMatchPanel';
+import { NameCheckPanel } from './NameCheckPanel';
+import { LayoutMetricsPanel } from './LayoutMetricsPanel';
+import { ReadingDifferencesPanel } from './ReadingDifferencesPanel';
 
 interface ProofreadingReportProps {
   report: Report;
 }
 
 export function ProofreadingReport({ report }: ProofreadingReportProps) {
-  const { extractedText, issues, dateValidation, summary } = report;
+  const { extractedText, issues, dateValidation, yahrzeits, quoteMatches, unmatchedQuotes, nameChecks, layout, consensus, summary } = report;
 
   return (
     <div className="card">
@@ -16,9 +23,42 @@ export function ProofreadingReport({ report }: ProofreadingReportProps) {
         <p style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
           {new Date(report.timestamp).toLocaleString('he-IL')}
         </p>
+        {report.template && (
+          <p style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+            תבנית: {report.template.label}{report.template.autoDetected && ' (זוהתה אוטומטית)'}
+          </p>
+        )}
+        {report.modelRuns && report.modelRuns.length > 0 && (
+          <p style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+            נבדק באמצעות:{' '}
+            {[...new Set(report.modelRuns.map((run) => `${run.model} · ${run.promptVersion}`))].join(', ')}
+          </p>
+        )}
       </div>
 
       <div className="card-body">
+        {/* Pages a provider could not read */}
+        {report.pageFailures && report.pageFailures.length > 0 && (
+          <div style={{
+            padding: '1rem',
+            background: 'var(--warning-bg)',
+            border: '1px solid var(--warning-color)',
+            borderRadius: 'var(--radius)',
+            marginBottom: '2rem',
+          }}>
+            <p style={{ color: 'var(--warning-color)', fontWeight: 600, marginBottom: '0.5rem' }}>
+              חלק מהעמודים לא נבדקו במלואם
+            </p>
+            <ul style={{ listStyle: 'none', fontSize: '0.875rem', lineHeight: 1.8 }}>
+              {report.pageFailures.map((failure, index) => (
+                <li key={index}>
+                  עמוד {failure.page} ({PROVIDER_LABELS[failure.provider]}): {failure.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Summary Stats */}
         <div className="stats-grid">
           <div className="stat-card">
@@ -61,6 +101,64 @@ export function ProofreadingReport({ report }: ProofreadingReportProps) {
           </section>
         )}
 
+        {/* Yahrzeit Section */}
+        {yahrzeits && yahrzeits.length > 0 && (
+          <section style={{ marginBottom: '2rem' }}>
+            <h3 style={{ marginBottom: '1rem' }}>תאריכי יארצייט</h3>
+            {yahrzeits.map((schedule, index) => (
+              <YahrzeitPanel key={index} schedule={schedule} />
+            ))}
+          </section>
+        )}
+
+        {/* Quote Sources Section */}
+        {((quoteMatches && quoteMatches.length > 0) || (unmatchedQuotes && unmatchedQuotes.length > 0)) && (
+          <section style={{ marginBottom: '2rem' }}>
+            <h3 style={{ marginBottom: '0.5rem' }}>השוואת ציטוטים למאגר</h3>
+            <p style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginBottom: '1rem' }}>
+              המאגר המקומי כולל {QUOTE_CORPUS_SIZE} פסוקים ותפילות הנפוצים על מצבות בלבד, ולא את כל התנ"ך והתפילה
+            </p>
+            {quoteMatches?.map((match, index) => (
+              <QuoteMatchPanel key={index} match={match} />
+            ))}
+            {unmatchedQuotes?.map((unmatched, index) => (
+              <div key={index} className="quote-match-panel">
+                <strong>{unmatched.memorialName || 'ללא שם'}</strong>
+                <span style={{ fontSize: '0.875rem', color: 'var(--warning-color)', marginRight: '0.5rem' }}>
+                  המקור אינו במאגר - הציטוט לא אומת, ונבדק על ידי המודל בלבד
+                </span>
+                <p style={{ fontSize: '0.875rem', marginTop: '0.25rem' }}>{unmatched.quote}</p>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* Name Spellings Section */}
+        {nameChecks && nameChecks.length > 0 && (
+          <section style={{ marginBottom: '2rem' }}>
+            <h3 style={{ marginBottom: '1rem' }}>כתיב שמות לאישור</h3>
+            <NameCheckPanel checks={nameChecks} />
+          </section>
+        )}
+
+        {/* Layout Section */}
+        {layout && layout.length > 0 && (
+          <section style={{ marginBottom: '2rem' }}>
+            <h3 style={{ marginBottom: '1rem' }}>אורך שורות וספירת תווים</h3>
+            {layout.map((metrics) => (
+              <LayoutMetricsPanel key={metrics.page} metrics={metrics} />
+            ))}
+          </section>
+        )}
+
+        {/* Reading Differences Section */}
+        {consensus && (
+          <section style={{ marginBottom: '2rem' }}>
+            <h3 style={{ marginBottom: '1rem' }}>הבדלי קריאה בין המודלים ({consensus.readingDifferences.length})</h3>
+            <ReadingDifferencesPanel consensus={consensus} />
+          </section>
+        )}
+
         {/* Issues Section */}
         {issues.length > 0 ? (
           <section style={{ marginBottom: '2rem' }}>
@@ -105,6 +203,7 @@ export function ProofreadingReport({ report }: ProofreadingReportProps) {
                   {extractedText.memorials.map((memorial, index) => (
                     <li key={index} style={{ marginBottom: '0.5rem' }}>
                       <strong>{memorial.name}</strong>
+                      {memorial.transliteratedName && <span dir="auto"> / {memorial.transliteratedName}</span>}
                       {memorial.parentNames && ` - ${memorial.parentNames}`}
                       {memorial.gregorianYears && ` (${memorial.gregorianYears})`}
                     </li>
@@ -118,7 +217,13 @@ export function ProofreadingReport({ report }: ProofreadingReportProps) {
                 הצג טקסט מלא
               </summary>
               <div className="text-preview">
-                {extractedText.rawText}
+                {extractedText.textBlocks?.some((block) => block.language !== 'he')
+                  ? extractedText.textBlocks.map((block, index) => (
+                    <div key={index} dir={block.language === 'he' ? 'rtl' : 'ltr'} lang={block.language}>
+                      {block.text}
+                    </div>
+                  ))
+                  : extractedText.rawText}
               </div>
             </details>
           </section>
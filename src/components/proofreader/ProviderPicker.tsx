@@ -0,0 +1,43 @@
+import type { ProviderId } from '../../types/proofreader';
+import { PROOFREAD_PROVIDERS } from '../../services/proofread';
+
+interface ProviderPickerProps {
+  value: ProviderId;
+  onChange: (value: ProviderId) => void;
+  consensus: boolean;
+  onConsensusChange: (value: boolean) => void;
+}
+
+export function ProviderPicker({ value, onChange, consensus, onConsensusChange }: ProviderPickerProps) {
+  const second = Object.values(PROOFREAD_PROVIDERS).find((provider) => provider.id !== value);
+
+  return (
+    <div className="card">
+      <div className="card-body">
+        <h3 style={{ marginBottom: '1rem' }}>מנוע הבינה המלאכותית</h3>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.875rem' }}>
+          קריאת הטקסט והגהה באמצעות
+          <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as ProviderId)}
+            style={{ padding: '0.25rem 0.5rem', fontFamily: 'inherit' }}
+          >
+            {Object.values(PROOFREAD_PROVIDERS).map((provider) => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+        </label>
+        {second && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem', marginTop: '0.75rem' }}>
+            <input
+              type="checkbox"
+              checked={consensus}
+              onChange={(e) => onConsensusChange(e.target.checked)}
+            />
+            בדיקה כפולה - לקרוא כל עמוד גם באמצעות {second.label} ולסמן היכן המודלים חלוקים
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
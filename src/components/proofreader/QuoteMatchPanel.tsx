@@ -0,0 +1,51 @@
+import type { QuoteMatch } from '../../types/proofreader';
+
+interface QuoteMatchPanelProps {
+  match: QuoteMatch;
+}
+
+export function QuoteMatchPanel({ match }: QuoteMatchPanelProps) {
+  return (
+    <div className="quote-match-panel">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <div>
+          <strong>{match.memorialName || 'ללא שם'}</strong>
+          <span style={{ fontSize: '0.875rem', color: 'var(--text-secondary)', marginRight: '0.5rem' }}>
+            {match.reference}
+          </span>
+        </div>
+        <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+          התאמה {Math.round(match.score * 100)}%
+        </span>
+      </div>
+      <div className="quote-diff">
+        {match.diffs.map((diff, index) => {
+          switch (diff.kind) {
+            case 'match':
+              return <span key={index}>{diff.quoteWord} </span>;
+            case 'variant':
+              return (
+                <span key={index} className="quote-diff-variant" title={`במקור: ${diff.sourceWord}`}>
+                  {diff.quoteWord}{' '}
+                </span>
+              );
+            case 'changed':
+              return (
+                <span key={index}>
+                  <del className="quote-diff-removed">{diff.quoteWord}</del>
+                  <ins className="quote-diff-added">{diff.sourceWord}</ins>{' '}
+                </span>
+              );
+            case 'missing':
+              return <ins key={index} className="quote-diff-added">{diff.sourceWord} </ins>;
+            case 'extra':
+              return <del key={index} className="quote-diff-removed">{diff.quoteWord} </del>;
+          }
+        })}
+      </div>
+      <p style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.25rem' }}>
+        מקור: {match.sourceText}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import type { ConsensusSummary } from '../../types/proofreader';
+import { PROVIDER_LABELS } from '../../types/proofreader';
+
+interface ReadingDifferencesPanelProps {
+  consensus: ConsensusSummary;
+}
+
+export function ReadingDifferencesPanel({ consensus }: ReadingDifferencesPanelProps) {
+  const { providers, readingDifferences, singleModelPages = [] } = consensus;
+
+  return (
+    <div className="reading-differences-panel">
+      {singleModelPages.length > 0 && (
+        <p style={{ fontSize: '0.875rem', color: 'var(--warning-color)', marginBottom: '0.5rem' }}>
+          בעמודים {singleModelPages.join(', ')} רק אחד המודלים קרא את הטקסט - הקריאה שם לא הושוותה
+        </p>
+      )}
+      {readingDifferences.length === 0 ? (
+        <p style={{ fontSize: '0.875rem' }}>
+          {singleModelPages.length > 0 && 'בשאר העמודים '}
+          {providers.map((provider) => PROVIDER_LABELS[provider]).join(' ו-')} קראו את הטקסט באופן זהה
+        </p>
+      ) : (
+        <>
+          <p style={{ fontSize: '0.875rem', color: 'var(--text-secondary)', marginBottom: '0.5rem' }}>
+            מילים שהמודלים קראו אחרת - ייתכן שהטקסט לא נקרא נכון, יש לאשר מול הקובץ
+          </p>
+          <ul style={{ listStyle: 'none', fontSize: '0.875rem', lineHeight: 2 }}>
+            {readingDifferences.map((difference, index) => (
+              <li key={index}>
+                <span style={{ color: 'var(--text-secondary)' }}>עמוד {difference.page}: </span>
+                {difference.context.slice(0, difference.span.start)}
+                <mark className="issue-span">{difference.context.slice(difference.span.start, difference.span.end)}</mark>
+                {difference.context.slice(difference.span.end)}
+                {providers.map((provider) => (
+                  <span key={provider} style={{ marginRight: '0.75rem' }}>
+                    <strong>{PROVIDER_LABELS[provider]}:</strong> {difference.readings[provider] || '(לא נקרא)'}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
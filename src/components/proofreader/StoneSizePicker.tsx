@@ -0,0 +1,29 @@
+import type { StoneSize } from '../../types/proofreader';
+import { STONE_SIZES } from '../../utils/layoutMetrics';
+
+interface StoneSizePickerProps {
+  value: StoneSize;
+  onChange: (value: StoneSize) => void;
+}
+
+export function StoneSizePicker({ value, onChange }: StoneSizePickerProps) {
+  return (
+    <div className="card">
+      <div className="card-body">
+        <h3 style={{ marginBottom: '1rem' }}>גודל המצבה</h3>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.875rem' }}>
+          אורך השורות נבדק לפי מצבה
+          <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as StoneSize)}
+            style={{ padding: '0.25rem 0.5rem', fontFamily: 'inherit' }}
+          >
+            {(Object.keys(STONE_SIZES) as StoneSize[]).map((size) => (
+              <option key={size} value={size}>{STONE_SIZES[size].label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
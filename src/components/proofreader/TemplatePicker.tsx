@@ -0,0 +1,30 @@
+import type { TemplateId } from '../../types/proofreader';
+import { TEMPLATE_PROFILES } from '../../utils/templateProfiles';
+
+interface TemplatePickerProps {
+  value: TemplateId | 'auto';
+  onChange: (value: TemplateId | 'auto') => void;
+}
+
+export function TemplatePicker({ value, onChange }: TemplatePickerProps) {
+  return (
+    <div className="card">
+      <div className="card-body">
+        <h3 style={{ marginBottom: '1rem' }}>תבנית המצבה</h3>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.875rem' }}>
+          מבנה ורכיבי חובה לפי
+          <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as TemplateId | 'auto')}
+            style={{ padding: '0.25rem 0.5rem', fontFamily: 'inherit' }}
+          >
+            <option value="auto">זיהוי אוטומטי</option>
+            {Object.values(TEMPLATE_PROFILES).map((profile) => (
+              <option key={profile.id} value={profile.id}>{profile.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
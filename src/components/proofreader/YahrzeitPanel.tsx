@@ -0,0 +1,44 @@
+import type { YahrzeitSchedule } from '../../types/proofreader';
+import { buildYahrzeitIcs } from '../../utils/yahrzeit';
+
+interface YahrzeitPanelProps {
+  schedule: YahrzeitSchedule;
+}
+
+export function YahrzeitPanel({ schedule }: YahrzeitPanelProps) {
+  const handleDownload = () => {
+    const ics = buildYahrzeitIcs(schedule);
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `yahrzeit-${(schedule.memorialName || 'memorial').replace(/[\\/:*?"<>|\s]+/g, '-')}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="yahrzeit-panel">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <div>
+          <strong>{schedule.memorialName || 'ללא שם'}</strong>
+          <span style={{ fontSize: '0.875rem', color: 'var(--text-secondary)', marginRight: '0.5rem' }}>
+            נפטר/ה {schedule.hebrewDeathDate}
+          </span>
+        </div>
+        <button className="btn btn-secondary" onClick={handleDownload} style={{ padding: '0.25rem 0.75rem' }}>
+          הורד קובץ ICS
+        </button>
+      </div>
+      <ul style={{ paddingRight: '1.5rem', fontSize: '0.875rem', lineHeight: 1.8 }}>
+        {schedule.dates.map((yahrzeit) => (
+          <li key={yahrzeit.hebrewYear}>
+            {yahrzeit.hebrewDate} - {new Date(yahrzeit.gregorianDate).toLocaleDateString('he-IL')}
+          </li>
+        ))}
+      </ul>
+      <p style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.25rem' }}>
+        היארצייט מתחיל בשקיעה בערב שלפני התאריך הלועזי
+      </p>
+    </div>
+  );
+}
@@ -3,3 +3,12 @@ export { PDFUploader } from './PDFUploader';
 export { ProofreadingReport } from './ProofreadingReport';
 export { ErrorItem } from './ErrorItem';
 export { DateValidationPanel } from './DateValidationPanel';
+export { YahrzeitPanel } from './YahrzeitPanel';
+export { HouseStylePanel } from './HouseStylePanel';
+export { QuoteMatchPanel } from './QuoteMatchPanel';
+export { NameCheckPanel } from './NameCheckPanel';
+export { TemplatePicker } from './TemplatePicker';
+export { StoneSizePicker } from './StoneSizePicker';
+export { LayoutMetricsPanel } from './LayoutMetricsPanel';
+export { ProviderPicker } from './ProviderPicker';
+export { ReadingDifferencesPanel } from './ReadingDifferencesPanel';
@@ -0,0 +1,99 @@
+/**
+ * Dictionary Service - Manage the shop's abbreviation and formula dictionary
+ */
+
+import type { DictionaryEntry } from '../types/proofreader';
+import { setMemorialDictionary } from '../utils/hebrewTextUtils';
+
+export type DictionaryEntryInput = Omit<DictionaryEntry, 'id' | 'updatedAt'>;
+
+/**
+ * Get all dictionary entries
+ */
+export async function getDictionary(): Promise<{
+  success: boolean;
+  entries?: DictionaryEntry[];
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/dictionary');
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to fetch dictionary' };
+    }
+
+    return { success: true, entries: data.entries };
+  } catch (error) {
+    console.error('Get dictionary error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch dictionary',
+    };
+  }
+}
+
+/**
+ * Load the shop's dictionary into the local abbreviation lookups
+ * (the built-in dictionary stays in use if it can't be fetched)
+ */
+export async function loadMemorialDictionary(): Promise<void> {
+  const response = await getDictionary();
+  if (response.success && response.entries) {
+    setMemorialDictionary(response.entries);
+  }
+}
+
+/**
+ * Add a new dictionary entry, or update an existing one when an id is given
+ */
+export async function saveDictionaryEntry(
+  input: DictionaryEntryInput,
+  id?: string
+): Promise<{ success: boolean; entry?: DictionaryEntry; error?: string }> {
+  try {
+    const response = await fetch(id ? `/api/dictionary?id=${encodeURIComponent(id)}` : '/api/dictionary', {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to save entry' };
+    }
+
+    return { success: true, entry: data.entry };
+  } catch (error) {
+    console.error('Save dictionary entry error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save entry',
+    };
+  }
+}
+
+/**
+ * Delete a dictionary entry
+ */
+export async function deleteDictionaryEntry(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(`/api/dictionary?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to delete entry' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Delete dictionary entry error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete entry',
+    };
+  }
+}
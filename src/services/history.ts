@@ -2,6 +2,8 @@
  * History Service - Save and retrieve proofreading results
  */
 
+import type { ModelRun } from '../types/proofreader';
+
 export interface HistoryEntry {
   id: string;
   fileName: string;
@@ -14,6 +16,7 @@ export interface HistoryEntry {
       memorials?: unknown[];
     };
     issues: unknown[];
+    modelRuns?: ModelRun[];
   };
 }
 
@@ -24,7 +27,7 @@ export async function saveResult(
   fileName: string,
   fileBase64: string,
   mimeType: string,
-  result: { extractedText: unknown; issues: unknown[] }
+  result: { extractedText: unknown; issues: unknown[]; modelRuns?: ModelRun[] }
 ): Promise<{ success: boolean; id?: string; error?: string }> {
   try {
     const response = await fetch('/api/save-result', {
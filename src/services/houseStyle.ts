@@ -0,0 +1,64 @@
+/**
+ * House Style Service - Load and save the shop's shared style profile
+ */
+
+import type { HouseStyleProfile } from '../types/proofreader';
+
+/**
+ * Get the house style profile (the default profile until one is saved)
+ */
+export async function getHouseStyle(): Promise<{
+  success: boolean;
+  profile?: HouseStyleProfile;
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/house-style');
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to fetch house style' };
+    }
+
+    return { success: true, profile: data.profile };
+  } catch (error) {
+    console.error('Get house style error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch house style',
+    };
+  }
+}
+
+/**
+ * Save the house style profile for everyone in the shop
+ */
+export async function saveHouseStyle(profile: HouseStyleProfile): Promise<{
+  success: boolean;
+  profile?: HouseStyleProfile;
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/house-style', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(profile),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to save house style' };
+    }
+
+    return { success: true, profile: data.profile };
+  } catch (error) {
+    console.error('Save house style error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save house style',
+    };
+  }
+}
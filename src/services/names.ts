@@ -0,0 +1,76 @@
+/**
+ * Names Service - Spellings confirmed by the office, added to the local name lexicon
+ */
+
+import type { ConfirmedName, NameKind } from '../types/proofreader';
+import { addConfirmedName, setConfirmedNames } from '../utils/nameLexicon';
+
+/**
+ * Get all confirmed name spellings
+ */
+export async function getConfirmedNames(): Promise<{
+  success: boolean;
+  names?: ConfirmedName[];
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/names');
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to fetch names' };
+    }
+
+    return { success: true, names: data.names };
+  } catch (error) {
+    console.error('Get names error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch names',
+    };
+  }
+}
+
+/**
+ * Load the confirmed spellings into the local name check
+ * (the built-in lexicon alone is used if they can't be fetched)
+ */
+export async function loadConfirmedNames(): Promise<void> {
+  const response = await getConfirmedNames();
+  if (response.success && response.names) {
+    setConfirmedNames(response.names);
+  }
+}
+
+/**
+ * Confirm a spelling as correct, so it is no longer flagged on future stones
+ */
+export async function confirmName(
+  spelling: string,
+  kind: NameKind
+): Promise<{ success: boolean; name?: ConfirmedName; error?: string }> {
+  try {
+    const response = await fetch('/api/names', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ spelling, kind }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to confirm name' };
+    }
+
+    addConfirmedName(data.name);
+    return { success: true, name: data.name };
+  } catch (error) {
+    console.error('Confirm name error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to confirm name',
+    };
+  }
+}
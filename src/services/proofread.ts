@@ -0,0 +1,123 @@
+/**
+ * Proofreading Service - Text extraction and proofreading through /api/proofread
+ * Every provider runs behind the serverless function, so no API key reaches the browser
+ */
+
+import type {
+  ExtractedTombstoneText,
+  ProofreadErrorCode,
+  ProofreadingIssue,
+  ProviderId,
+} from '../types/proofreader';
+import { PROOFREAD_ERROR_MESSAGES } from '../types/proofreader';
+import { blobToBase64 } from '../utils/pdfToImage';
+import { formatSchemaErrors, validateProofreadResponse } from '../utils/proofreadSchema';
+
+export interface ProofreadResult {
+  success: boolean;
+  extractedText?: ExtractedTombstoneText;
+  issues?: ProofreadingIssue[];
+  error?: string;
+  errorCode?: ProofreadErrorCode;
+  rawResponse?: string;
+  model?: string;
+  promptVersion?: string;
+}
+
+/**
+ * A model that reads a page image and proofreads it
+ */
+export interface ProofreadProvider {
+  id: ProviderId;
+  label: string;
+  proofreadImage: (imageBlob: Blob) => Promise<ProofreadResult>;
+}
+
+/**
+ * Send image to the API for Hebrew text extraction and proofreading by the given provider
+ */
+async function proofreadWithProvider(provider: ProviderId, imageBlob: Blob): Promise<ProofreadResult> {
+  try {
+    const base64Image = await blobToBase64(imageBlob);
+
+    const response = await fetch('/api/proofread', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        imageBase64: base64Image,
+        mimeType: imageBlob.type || 'image/png',
+        provider,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      console.error('API Error:', errorData);
+      // The platform's own timeout answers without our JSON body
+      const errorCode: ProofreadErrorCode = errorData.code ?? (response.status === 504 ? 'timeout' : 'unknown');
+      return {
+        success: false,
+        error: errorCode === 'unknown'
+          ? `${PROOFREAD_ERROR_MESSAGES.unknown}: ${errorData.error || `API Error: ${response.status}`}`
+          : PROOFREAD_ERROR_MESSAGES[errorCode],
+        errorCode,
+      };
+    }
+
+    const result = await response.json();
+
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error || 'No data in response',
+        rawResponse: JSON.stringify(result),
+      };
+    }
+
+    // The server has validated the data already; check it again at this boundary
+    const validated = validateProofreadResponse(result.data);
+    if (!validated.ok) {
+      console.error('Invalid response:', formatSchemaErrors(validated.errors));
+      return {
+        success: false,
+        error: PROOFREAD_ERROR_MESSAGES.invalid_response,
+        errorCode: 'invalid_response',
+        rawResponse: JSON.stringify(result.data),
+      };
+    }
+
+    return {
+      success: true,
+      extractedText: validated.data.extractedText,
+      issues: validated.data.issues.map((issue, index) => ({ id: `issue-${Date.now()}-${index}`, ...issue })),
+      model: result.model,
+      promptVersion: result.promptVersion,
+    };
+  } catch (error) {
+    console.error('Proofreading error:', error);
+    // fetch rejects with a TypeError when the server cannot be reached
+    if (error instanceof TypeError) {
+      return { success: false, error: PROOFREAD_ERROR_MESSAGES.network, errorCode: 'network' };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      errorCode: 'unknown',
+    };
+  }
+}
+
+const serverProvider = (id: ProviderId, label: string): ProofreadProvider => ({
+  id,
+  label,
+  proofreadImage: (imageBlob) => proofreadWithProvider(id, imageBlob),
+});
+
+export const PROOFREAD_PROVIDERS: Record<ProviderId, ProofreadProvider> = {
+  gemini: serverProvider('gemini', 'Gemini 2.0 Flash'),
+  claude: serverProvider('claude', 'Claude Sonnet 4'),
+};
+
+export const DEFAULT_PROVIDER: ProviderId = 'gemini';
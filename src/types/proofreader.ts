@@ -26,7 +26,46 @@ export interface ProofreadingIssue {
   location?: {
     section?: string;
     context?: string;
+    span?: TextSpan;       // Position of originalText within context
   };
+  confusion?: LetterConfusion;  // Set when the word has letters OCR commonly confuses
+  providers?: ProviderId[];     // In double-check mode, the models that reported it
+}
+
+// Whether a suspect word is most likely wrong on the proof itself or misread from it
+export type ConfusionVerdict = 'engraving' | 'ocr';
+
+// A word containing visually confusable letters (ד/ר, ה/ח/ת, ו/ז/ן, ב/כ, ס/ם)
+// that is not a known word, while a one-letter swap gives one
+export interface LetterConfusion {
+  word: string;
+  alternatives: string[];  // Known words one confusable letter away
+  verdict: ConfusionVerdict;
+  reasons: string[];
+}
+
+// Character range in a source string (end is exclusive)
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// How sure the date parser is about a recognised component
+export type ParseConfidence = 'high' | 'medium' | 'low';
+
+// Parts of a Hebrew date the parser recognises
+export type DateComponentKind = 'day' | 'month' | 'year' | 'weekday' | 'sunset' | 'specialDay';
+
+// A piece of a date string with its position in the source
+export interface DateToken extends TextSpan {
+  text: string;
+}
+
+// A recognised date component (י"א as day 11, סיון as month 3)
+export interface DateComponent extends DateToken {
+  kind: DateComponentKind;
+  value: number | null;    // Day, month, year or weekday number; null for phrases
+  confidence: ParseConfidence;
 }
 
 // Hebrew date as parsed from tombstone
@@ -35,6 +74,13 @@ export interface HebrewDateInfo {
   month?: string;
   monthNumeric?: number;
   year?: number;
+  afterSunset?: boolean;   // "אור ל", "ליל", "מוצאי" - Gregorian date is the evening before
+  sunsetPhrase?: string;
+  specialDay?: string;     // "ערב פסח", "ראש חודש אלול" - resolved into day/month
+  weekday?: number;        // 0 = Sunday ... 6 = Shabbat, of the Hebrew day
+  weekdayText?: string;
+  components?: DateComponent[];
+  unparsed?: DateToken[];  // Words the parser could not place
   rawText: string;
 }
 
@@ -54,25 +100,98 @@ export interface DateValidationResult {
   expectedHebrewDate?: string;
   expectedGregorianDate?: string;
   discrepancyExplanation?: string;
+  ageValidation?: AgeValidationResult;
+}
+
+// Range of possible ages at death (min === max when full dates are known)
+export interface AgeRange {
+  min: number;
+  max: number;
+}
+
+// Birth date and stated age cross-check for one memorial
+export interface AgeValidationResult {
+  statedAge?: number;
+  gregorianAge?: AgeRange;
+  hebrewAge?: AgeRange;
+  birthDate?: DateValidationResult;  // Hebrew vs Gregorian birth date
+  isConsistent: boolean;
+  discrepancyExplanation?: string;
 }
 
+// Grammatical gender of a memorial, as used for agreement checks
+export type Gender = 'male' | 'female';
+
 // Memorial entry extracted from tombstone
 export interface MemorialEntry {
   name?: string;
   relationship?: string;
   parentNames?: string;
+  hebrewBirthDate?: string;
   hebrewDeathDate?: string;
   gregorianYears?: string;
+  statedAge?: string;      // "בן 87 שנים", "בגיל 64"
   quote?: string;
+  transliteratedName?: string;  // The name in the Russian/English section: "Chaim Cohen", "Хаим Коган"
+}
+
+// One upcoming yahrzeit (anniversary of death on the Hebrew calendar)
+export interface YahrzeitDate {
+  hebrewYear: number;
+  hebrewDate: string;
+  gregorianDate: Date;  // Observance begins at sunset the evening before
+}
+
+// Upcoming yahrzeit dates for one memorial
+export interface YahrzeitSchedule {
+  memorialName?: string;
+  hebrewDeathDate: string;
+  dates: YahrzeitDate[];
+}
+
+// How a quoted word compares with its source: 'variant' differs only in ו/י (plene spelling)
+export type QuoteDiffKind = 'match' | 'variant' | 'changed' | 'missing' | 'extra';
+
+// One word of a quote aligned against its source verse
+export interface QuoteWordDiff {
+  kind: QuoteDiffKind;
+  quoteWord?: string;      // As written on the stone; absent for 'missing'
+  sourceWord?: string;     // As in the source; absent for 'extra'
+}
+
+// The closest source for a memorial's quote
+export interface QuoteMatch {
+  memorialName?: string;
+  quote: string;
+  reference: string;       // "משלי ל"א, י'" or the name of the prayer
+  sourceText: string;      // The matched words of the source
+  score: number;           // 0-1, share of the quote that matches the source
+  diffs: QuoteWordDiff[];
+}
+
+// A quote whose source is not in the bundled corpus; only the model has checked it
+export interface UnmatchedQuote {
+  memorialName?: string;
+  quote: string;
 }
 
 // Extracted text structure from tombstone
+// Languages engraved on bilingual stones
+export type TextLanguage = 'he' | 'ru' | 'en';
+
+// A run of text in one language, in stone order
+export interface TextBlock {
+  language: TextLanguage;
+  text: string;
+}
+
 export interface ExtractedTombstoneText {
   rawText: string;
   familyName?: string;
   memorials: MemorialEntry[];
   headerFormulas: string[];
   footerFormulas: string[];
+  textBlocks?: TextBlock[];
 }
 
 // Complete proofreading report
@@ -84,6 +203,15 @@ export interface ProofreadingReport {
   extractedText: ExtractedTombstoneText | null;
   issues: ProofreadingIssue[];
   dateValidation: DateValidationResult[];
+  yahrzeits?: YahrzeitSchedule[];
+  quoteMatches?: QuoteMatch[];
+  unmatchedQuotes?: UnmatchedQuote[];
+  nameChecks?: NameCheck[];
+  template?: TemplateSelection;
+  layout?: LayoutMetrics[];
+  consensus?: ConsensusSummary;
+  modelRuns?: ModelRun[];
+  pageFailures?: PageFailure[];
   summary: {
     totalIssues: number;
     errors: number;
@@ -93,6 +221,185 @@ export interface ProofreadingReport {
   processingError?: string;
 }
 
+// Quote marks in abbreviations and numerals: ASCII (פ"נ, י"א) or Hebrew (פ״נ, י״א)
+export type QuoteStyle = 'ascii' | 'hebrew';
+
+// How "תהא נשמתו צרורה בצרור החיים" is abbreviated: ת.נ.צ.ב.ה or תנצב"ה
+export type TanatzbahStyle = 'dotted' | 'gershayim';
+
+// Joiner between Hebrew words: maqaf (בית־שמש) or hyphen (בית-שמש)
+export type DashStyle = 'maqaf' | 'hyphen';
+
+// The shop's canonical variants, shared by all designers
+export interface HouseStyleProfile {
+  quotes: QuoteStyle;
+  tanatzbah: TanatzbahStyle;
+  dash: DashStyle;
+  lineLimits?: Partial<Record<StoneSize, number>>;  // Max letters per line, overriding the size defaults
+  updatedAt?: string;
+}
+
+// An abbreviation or formula in the shop's dictionary
+export interface DictionaryEntry {
+  id: string;
+  term: string;            // As engraved: ז"ל, נלב"ע, ת.נ.צ.ב.ה
+  expansion: string;       // זכרונו/ה לברכה
+  maleForm?: string;       // זכרונו לברכה
+  femaleForm?: string;     // זכרונה לברכה
+  discouraged?: boolean;   // Recognised, but flagged when used
+  note?: string;
+  updatedAt?: string;
+}
+
+// Given name or surname
+export type NameKind = 'given' | 'family';
+
+// A name in the lexicon with its accepted spellings
+export interface NameLexiconEntry {
+  spellings: string[];       // Common spellings, most common first
+  rareSpellings?: string[];  // Correct but unusual - checked with the family before engraving
+  kind: NameKind;
+}
+
+// A spelling the office has confirmed as correct
+export interface ConfirmedName {
+  spelling: string;
+  kind: NameKind;
+  confirmedAt?: string;
+}
+
+// Where on the memorial a name was read from
+export type NameField = 'name' | 'parentNames' | 'familyName';
+
+// A name on the stone that is not one of the lexicon's common spellings
+export interface NameCheck {
+  word: string;
+  field: NameField;
+  memorialName?: string;
+  status: 'rare' | 'unknown';
+  kind: NameKind;
+  commonSpellings: string[];
+}
+
+// Stone layouts the structure check knows about
+export type TemplateId = 'ashkenazi' | 'sephardi' | 'secular' | 'military' | 'family';
+
+// Structural parts of a stone; name, parentNames and deathDate repeat per memorial
+export type TemplateElementKind =
+  | 'familyHeader'   // משפחת כהן
+  | 'header'         // פ"נ, פ"ט
+  | 'rank'           // Military rank
+  | 'name'
+  | 'parentNames'
+  | 'fallen'         // נפל בעת מילוי תפקידו
+  | 'deathDate'
+  | 'footer';        // ת.נ.צ.ב.ה
+
+// The template a stone was checked against, and whether it was picked automatically
+export interface TemplateSelection {
+  id: TemplateId;
+  label: string;
+  autoDetected: boolean;
+}
+
+// Stone sizes the shop cuts; a double stone's limit is per panel
+export type StoneSize = 'small' | 'standard' | 'large' | 'double';
+
+// A line of the PDF text layer, with its width in PDF units
+export interface TextLayerLine {
+  text: string;
+  width: number;
+  column: number;          // Panel of a double stone, counted from the right
+}
+
+// One engraved line: letters are every character that is cut, spaces excluded
+export interface LineMetrics {
+  text: string;
+  panel: number;           // Panel of a double stone, in stone order
+  letters: number;
+  width: number;           // PDF units from the text layer, or estimated letter widths
+  overLimit: boolean;
+}
+
+// Two lines at the same distance from the middle of a panel, which a centred layout balances
+export interface MirroredLinePair {
+  top: number;             // Indexes into LayoutMetrics.lines
+  bottom: number;
+  widthDifference: number; // 0-1, relative to the wider line
+}
+
+// Line lengths and balance of one page, and the letter counts used for pricing
+export interface LayoutMetrics {
+  page: number;
+  source: 'textLayer' | 'rawText';
+  stoneSize: StoneSize;
+  maxLettersPerLine: number;
+  lines: LineMetrics[];
+  longestLine: number;     // Index into lines, -1 when there are none
+  mirroredPairs: MirroredLinePair[];
+  memorialLetters: Array<{ memorialName?: string; letters: number }>;
+  sharedLetters: number;   // Family header and lines before the first memorial
+  totalLetters: number;
+}
+
+// AI backends behind /api/proofread
+export type ProviderId = 'gemini' | 'claude';
+
+// The model and prompt version that read one page, kept so results can be explained later
+export interface ModelRun {
+  page: number;
+  provider: ProviderId;
+  model: string;           // "gemini-2.0-flash-exp"
+  promptVersion: string;   // "proofread@2"
+}
+
+// A page a provider could not read after the server's retries; the run goes on without it
+export interface PageFailure {
+  page: number;
+  provider: ProviderId;
+  errorCode: ProofreadErrorCode;
+  message: string;         // Hebrew, as shown to the user
+}
+
+// Words two models read differently on the same page, for a human to confirm
+export interface ReadingDifference {
+  page: number;
+  readings: Partial<Record<ProviderId, string>>;  // Empty when a model read no word there
+  context: string;         // The primary reading of the line
+  span: TextSpan;          // The differing words within the context
+}
+
+// Double-check mode: every page read by two providers
+export interface ConsensusSummary {
+  providers: [ProviderId, ProviderId];
+  readingDifferences: ReadingDifference[];
+  singleModelPages?: number[];  // Pages one of the models failed on, read by the other one only
+}
+
+// Why a call to /api/proofread failed, turned into a specific message in the UI
+export type ProofreadErrorCode =
+  | 'bad_request'           // The page or parameters were rejected
+  | 'not_configured'        // The provider's API key is not set on the server
+  | 'auth_failed'           // The provider rejected the server's API key
+  | 'rate_limited'          // Still rate limited after the retries
+  | 'provider_unavailable'  // Provider overloaded or down after the retries
+  | 'timeout'               // No answer before the deadline
+  | 'invalid_response'      // The reply failed the schema even after a repair
+  | 'network'               // The browser could not reach the server
+  | 'unknown';
+
+// A field of a model response that failed the schema, or was coerced to fit it
+export interface SchemaFieldError {
+  path: string;      // "issues[3].category"
+  message: string;
+}
+
+// A model response after validation: an issue has no id until the client assigns one
+export interface ProofreadResponseData {
+  extractedText: ExtractedTombstoneText;
+  issues: Array<Omit<ProofreadingIssue, 'id'>>;
+}
+
 // Processing status for UI
 export type ProcessingStatus = 'idle' | 'converting' | 'analyzing' | 'validating' | 'completed' | 'error';
 
@@ -107,6 +414,25 @@ export const CATEGORY_LABELS: Record<IssueCategory, string> = {
   missing_element: 'רכיב חסר',
 } as const;
 
+// Provider names for UI
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Gemini',
+  claude: 'Claude',
+} as const;
+
+// Hebrew messages for failed proofreading calls
+export const PROOFREAD_ERROR_MESSAGES: Record<ProofreadErrorCode, string> = {
+  bad_request: 'הקובץ או הבקשה אינם תקינים - נסו קובץ אחר או עמוד קטן יותר',
+  not_configured: 'מפתח ה-API של הספק שנבחר אינו מוגדר בשרת',
+  auth_failed: 'הספק דחה את מפתח ה-API של השרת - יש לבדוק את המפתח',
+  rate_limited: 'חרגנו ממכסת הבקשות של הספק - נסו שוב בעוד דקה או בחרו ספק אחר',
+  provider_unavailable: 'שירות הבינה המלאכותית עמוס או אינו זמין כרגע - נסו שוב בעוד מספר דקות',
+  timeout: 'הניתוח לא הסתיים בזמן - נסו שוב או העלו עמוד אחד בכל פעם',
+  invalid_response: 'התשובה של המודל לא הייתה תקינה גם לאחר ניסיון תיקון - נסו שוב',
+  network: 'אין חיבור לשרת - בדקו את החיבור לאינטרנט ונסו שוב',
+  unknown: 'שגיאה לא צפויה בניתוח העמוד',
+} as const;
+
 // Hebrew severity labels for UI
 export const SEVERITY_LABELS: Record<IssueSeverity, string> = {
   error: 'שגיאה',
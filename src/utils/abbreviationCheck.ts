@@ -0,0 +1,49 @@
+/**
+ * Abbreviation Check
+ * Flags abbreviations and formulas that the shop's dictionary marks as discouraged
+ */
+
+import type { ProofreadingIssue } from '../types/proofreader';
+import { getMemorialDictionary, normalizeQuotes } from './hebrewTextUtils';
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Report every use of a discouraged dictionary entry as a suggestion
+ */
+export function checkDiscouragedTerms(rawText: string): ProofreadingIssue[] {
+  if (!rawText) return [];
+
+  const discouraged = getMemorialDictionary().filter((entry) => entry.discouraged);
+  const issues: ProofreadingIssue[] = [];
+
+  for (const line of rawText.split('\n')) {
+    // Quote normalization keeps string length, so match offsets apply to the line itself
+    const normalized = normalizeQuotes(line);
+
+    for (const entry of discouraged) {
+      // Whole words only, allowing a one-letter prefix ("וזצ"ל")
+      const pattern = new RegExp(`(?<![א-ת])[והבלכש]?${escapeRegExp(normalizeQuotes(entry.term))}(?![א-ת])`, 'g');
+
+      for (const match of normalized.matchAll(pattern)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        issues.push({
+          id: `dictionary-${Date.now()}-${issues.length}`,
+          category: 'abbreviation',
+          severity: 'suggestion',
+          originalText: line.slice(start, end),
+          explanation: `"${entry.term}" (${entry.expansion}) מסומן במילון כלא מומלץ${entry.note ? ` - ${entry.note}` : ''}`,
+          location: { context: line, span: { start, end } },
+        });
+      }
+    }
+  }
+
+  return issues;
+}
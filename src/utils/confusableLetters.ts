@@ -0,0 +1,234 @@
+/**
+ * Confusable Letters
+ * Finds words with letters that look alike (ד/ר, ה/ח/ת, ו/ז/ן, ב/כ, ס/ם)
+ * which are not known words while a one-letter swap is, and judges whether
+ * the proof itself is wrong or the model misread it
+ */
+
+import type {
+  ExtractedTombstoneText,
+  LetterConfusion,
+  ProofreadingIssue,
+  TextSpan,
+} from '../types/proofreader';
+import wordList from '../data/memorialWordList.json';
+import corpus from '../data/quoteCorpus.json';
+import { findDictionaryEntry, lookupHebrewMonth } from './hebrewTextUtils';
+import { isKnownName } from './nameLexicon';
+import { isGenderedWord } from './genderAgreement';
+
+// Letters OCR mistakes for one another
+const CONFUSABLE_GROUPS = [['ד', 'ר'], ['ה', 'ח', 'ת'], ['ו', 'ז', 'ן'], ['ב', 'כ'], ['ס', 'ם']];
+
+const CONFUSABLE = new Map<string, string[]>();
+for (const group of CONFUSABLE_GROUPS) {
+  for (const letter of group) {
+    CONFUSABLE.set(letter, group.filter((other) => other !== letter));
+  }
+}
+
+// Hebrew keyboard (SI-1452) rows, each with its physical offset in key widths
+const KEYBOARD_ROWS: Array<[string, number]> = [
+  ["/'קראטוןםפ", 0],
+  ['שדגכעיחלךף', 0.25],
+  ['זסבהנמצתץ', 0.75],
+];
+
+const KEY_POSITIONS = new Map<string, { row: number; x: number }>();
+KEYBOARD_ROWS.forEach(([letters, offset], row) => {
+  [...letters].forEach((letter, column) => KEY_POSITIONS.set(letter, { row, x: column + offset }));
+});
+
+// Words known to be correct: memorial vocabulary plus every word of the quote corpus
+const KNOWN_WORDS = new Set<string>([
+  ...wordList,
+  ...corpus.flatMap((entry) => entry.text.split(/\s+/)).filter((word) => !/['"]/.test(word)),
+]);
+
+const PREFIX_LETTERS = 'והבלמשכ';
+const FINAL_LETTERS = 'ךםןףץ';
+
+/**
+ * A suspect word with where it was found
+ */
+export interface LetterConfusionFinding extends LetterConfusion {
+  context: string;
+  span: TextSpan;
+}
+
+function areAdjacentKeys(a: string, b: string): boolean {
+  const first = KEY_POSITIONS.get(a);
+  const second = KEY_POSITIONS.get(b);
+  if (!first || !second) return false;
+  return Math.abs(first.row - second.row) <= 1 && Math.abs(first.x - second.x) <= 1;
+}
+
+/**
+ * Whether a word, or the word without up to two prefix letters (והיקרה, לאבינו),
+ * is a known word, name, month, gendered form or dictionary term
+ */
+export function isKnownWord(word: string): boolean {
+  const forms = [word];
+  for (let i = 0; i < 2 && PREFIX_LETTERS.includes(word[i]) && word.length - i > 2; i++) {
+    forms.push(word.slice(i + 1));
+  }
+
+  return forms.some((form) => KNOWN_WORDS.has(form)
+    || isKnownName(form)
+    || isGenderedWord(form)
+    || lookupHebrewMonth(form) !== null
+    || findDictionaryEntry(form) !== null);
+}
+
+/**
+ * Known words that differ from the word in one confusable letter, with the letters swapped
+ */
+function confusableAlternatives(word: string): Array<{ text: string; from: string; to: string; index: number }> {
+  const alternatives: Array<{ text: string; from: string; to: string; index: number }> = [];
+
+  [...word].forEach((letter, index) => {
+    for (const other of CONFUSABLE.get(letter) ?? []) {
+      const text = word.slice(0, index) + other + word.slice(index + 1);
+      if (isKnownWord(text) && !alternatives.some((alternative) => alternative.text === text)) {
+        alternatives.push({ text, from: letter, to: other, index });
+      }
+    }
+  });
+
+  return alternatives;
+}
+
+/**
+ * Words in the text, skipping abbreviations and numerals (ז"ל, תשע"ט)
+ */
+function textWords(text: string): Array<{ text: string; start: number; end: number }> {
+  return [...text.matchAll(/[א-ת]+(?:["'״׳][א-ת]*)?/g)]
+    .filter((match) => !/["'״׳]/.test(match[0]))
+    .map((match) => ({ text: match[0], start: match.index!, end: match.index! + match[0].length }));
+}
+
+/**
+ * Find suspect words in the stone text and judge each one. The model's
+ * extracted fields are a second reading of the same text, so a field that
+ * reads the word differently points to a misread; a keyboard-adjacent swap or
+ * a misspelling repeated the same way points to the proof itself.
+ */
+export function findLetterConfusions(extracted: ExtractedTombstoneText): LetterConfusionFinding[] {
+  const rawText = extracted.rawText || '';
+  const fieldsText = [
+    extracted.familyName,
+    ...extracted.memorials.flatMap((memorial) => [
+      memorial.name,
+      memorial.relationship,
+      memorial.parentNames,
+      memorial.hebrewBirthDate,
+      memorial.hebrewDeathDate,
+      memorial.statedAge,
+      memorial.quote,
+    ]),
+  ].filter(Boolean).join('\n');
+
+  const fieldWords = new Set(textWords(fieldsText).map((word) => word.text));
+  const rawCounts = new Map<string, number>();
+  for (const word of textWords(rawText)) {
+    rawCounts.set(word.text, (rawCounts.get(word.text) ?? 0) + 1);
+  }
+
+  const findings: LetterConfusionFinding[] = [];
+
+  for (const line of rawText.split('\n')) {
+    for (const word of textWords(line)) {
+      if (word.text.length < 3 || isKnownWord(word.text) || findings.some((f) => f.word === word.text)) continue;
+
+      const alternatives = confusableAlternatives(word.text);
+      if (alternatives.length === 0) continue;
+
+      const [best] = alternatives;
+      const reasons: string[] = [];
+      let ocr = 0;
+      let engraving = 0;
+
+      if (fieldWords.has(best.text) && !fieldWords.has(word.text)) {
+        ocr += 2;
+        reasons.push(`בנתונים שחולצו אותה מילה נקראה "${best.text}"`);
+      } else if (rawCounts.has(best.text)) {
+        ocr += 1;
+        reasons.push(`"${best.text}" מופיע במקום אחר בטקסט`);
+      }
+
+      const count = rawCounts.get(word.text) ?? 0;
+      if (count >= 2 && !rawCounts.has(best.text)) {
+        engraving += 2;
+        reasons.push(`"${word.text}" כתוב כך ${count} פעמים`);
+      }
+
+      if (areAdjacentKeys(best.from, best.to)) {
+        engraving += 1;
+        reasons.push(`${best.from}/${best.to} סמוכות במקלדת - טעות הקלדה אפשרית`);
+      } else {
+        ocr += 1;
+        reasons.push(`${best.from}/${best.to} דומות במראה אך רחוקות במקלדת`);
+      }
+
+      const isLast = best.index === word.text.length - 1;
+      if (FINAL_LETTERS.includes(best.from) !== isLast && FINAL_LETTERS.includes(best.to) === isLast) {
+        ocr += 1;
+        reasons.push('צורת האות אינה אפשרית במקומה במילה');
+      }
+
+      findings.push({
+        word: word.text,
+        alternatives: alternatives.map((alternative) => alternative.text),
+        // On a tie, check the proof image first: that is cheaper than going back to the designer
+        verdict: engraving > ocr ? 'engraving' : 'ocr',
+        reasons,
+        context: line,
+        span: { start: word.start, end: word.end },
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * One spelling issue per suspect word: a warning when the proof is likely
+ * wrong, a suggestion to check the image when it was likely misread
+ */
+export function letterConfusionIssues(findings: LetterConfusionFinding[]): ProofreadingIssue[] {
+  return findings.map(({ context, span, ...confusion }, index) => {
+    const alternatives = confusion.alternatives.map((alternative) => `"${alternative}"`).join(' או ');
+    return {
+      id: `confusion-${Date.now()}-${index}`,
+      category: 'spelling',
+      severity: confusion.verdict === 'engraving' ? 'warning' : 'suggestion',
+      originalText: confusion.word,
+      suggestedFix: confusion.alternatives[0],
+      explanation: confusion.verdict === 'engraving'
+        ? `"${confusion.word}" אינה מילה מוכרת - כנראה שגיאה בהגהה עצמה, אולי ${alternatives}`
+        : `"${confusion.word}" כנראה נקראה בטעות במקום ${alternatives} - יש לבדוק בתמונת ההגהה לפני פנייה למעצב`,
+      location: { context, span },
+      confusion,
+    };
+  });
+}
+
+/**
+ * Attach the verdict to every issue (the model's included) about a suspect word
+ */
+export function annotateLetterConfusions(
+  issues: ProofreadingIssue[],
+  findings: LetterConfusionFinding[]
+): ProofreadingIssue[] {
+  if (findings.length === 0) return issues;
+
+  return issues.map((issue) => {
+    if (issue.confusion) return issue;
+    const words = textWords(issue.originalText).map((word) => word.text);
+    const finding = findings.find((f) => words.includes(f.word));
+    if (!finding) return issue;
+
+    const { word, alternatives, verdict, reasons } = finding;
+    return { ...issue, confusion: { word, alternatives, verdict, reasons } };
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Consensus
+ * Double-check mode: compares two models' readings of the same page word by
+ * word, and merges their issues, marking which model reported each one
+ */
+
+import type { ProofreadingIssue, ProviderId, ReadingDifference } from '../types/proofreader';
+import { normalizeQuotes } from './hebrewTextUtils';
+
+interface WordToken {
+  text: string;
+  key: string;
+  line: number;
+  start: number;
+  end: number;
+}
+
+// Page markers and panel separators are layout, not reading
+const SEPARATOR_LINE_PATTERN = /^\s*(?:──.*──|[─━—_-]{3,})\s*$/;
+
+// Words of context shown on each side of a difference
+const CONTEXT_WORDS = 4;
+
+function tokenize(text: string): { lines: string[]; words: WordToken[] } {
+  const lines = text.split('\n');
+  const words: WordToken[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    if (SEPARATOR_LINE_PATTERN.test(line)) return;
+    for (const match of line.matchAll(/\S+/g)) {
+      // Punctuation at the edges is not a reading difference
+      const key = normalizeQuotes(match[0]).replace(/^[.,:;()-]+|[.,:;()-]+$/g, '');
+      if (!key) continue;
+      words.push({ text: match[0], key, line: lineIndex, start: match.index!, end: match.index! + match[0].length });
+    }
+  });
+
+  return { lines, words };
+}
+
+/**
+ * Longest common subsequence of two word lists, as pairs of matching indexes
+ */
+function matchWords(a: WordToken[], b: WordToken[]): Array<[number, number]> {
+  const width = b.length + 1;
+  const table = new Int32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i].key === b[j].key
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].key === b[j].key) {
+      pairs.push([i++, j++]);
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Align two readings of a page and return every run of words they read
+ * differently, located in the primary reading. Differences only in quote
+ * marks or surrounding punctuation are ignored.
+ */
+export function compareReadings(
+  page: number,
+  primary: { provider: ProviderId; rawText: string },
+  secondary: { provider: ProviderId; rawText: string }
+): ReadingDifference[] {
+  const first = tokenize(primary.rawText);
+  const second = tokenize(secondary.rawText);
+  const pairs = matchWords(first.words, second.words);
+  const differences: ReadingDifference[] = [];
+
+  // Sentinel pair after the last words closes a trailing difference
+  const anchors: Array<[number, number]> = [...pairs, [first.words.length, second.words.length]];
+  let previous: [number, number] = [-1, -1];
+
+  for (const anchor of anchors) {
+    const primaryWords = first.words.slice(previous[0] + 1, anchor[0]);
+    const secondaryWords = second.words.slice(previous[1] + 1, anchor[1]);
+    previous = anchor;
+    if (primaryWords.length === 0 && secondaryWords.length === 0) continue;
+
+    // Where a model read nothing, point at the word before the gap (or after it)
+    const located = primaryWords.length > 0
+      ? primaryWords
+      : [first.words[Math.max(0, anchor[0] - 1)] ?? first.words[anchor[0]]].filter(Boolean);
+    if (located.length === 0) continue;
+
+    const line = located[0].line;
+    const onLine = located.filter((word) => word.line === line);
+    const lineWords = first.words.filter((word) => word.line === line);
+    const firstIndex = lineWords.indexOf(onLine[0]);
+    const lastIndex = lineWords.indexOf(onLine[onLine.length - 1]);
+    const contextStart = lineWords[Math.max(0, firstIndex - CONTEXT_WORDS)].start;
+    const contextEnd = lineWords[Math.min(lineWords.length - 1, lastIndex + CONTEXT_WORDS)].end;
+    const context = first.lines[line].slice(contextStart, contextEnd);
+
+    const span = primaryWords.length > 0
+      ? { start: onLine[0].start - contextStart, end: onLine[onLine.length - 1].end - contextStart }
+      : { start: onLine[0].end - contextStart, end: onLine[0].end - contextStart };
+
+    differences.push({
+      page,
+      readings: {
+        [primary.provider]: primaryWords.map((word) => word.text).join(' '),
+        [secondary.provider]: secondaryWords.map((word) => word.text).join(' '),
+      },
+      context,
+      span,
+    });
+  }
+
+  return differences;
+}
+
+/**
+ * Issues compare by their original text; missing elements, which have none,
+ * by category and fix
+ */
+function issueTextKey(issue: ProofreadingIssue): string {
+  const normalize = (value: string) => normalizeQuotes(value).replace(/\s+/g, ' ').trim();
+  const text = normalize(issue.originalText || '');
+  return text || `+${issue.category}:${normalize(issue.suggestedFix || issue.explanation)}`;
+}
+
+/**
+ * Merge the issues of several models. An issue about text another model
+ * already reported is folded into that one, kept as the first model worded
+ * it, listing every model that reported it.
+ */
+export function mergeProviderIssues(
+  results: Array<{ provider: ProviderId; issues: ProofreadingIssue[] }>
+): ProofreadingIssue[] {
+  const merged: ProofreadingIssue[] = [];
+
+  for (const { provider, issues } of results) {
+    for (const issue of issues) {
+      const key = issueTextKey(issue);
+      const existing = merged.find((other) => issueTextKey(other) === key && !other.providers?.includes(provider));
+      if (existing) {
+        existing.providers = [...(existing.providers ?? []), provider];
+      } else {
+        merged.push({ ...issue, id: `${issue.id}-${provider}`, providers: [provider] });
+      }
+    }
+  }
+
+  return merged;
+}
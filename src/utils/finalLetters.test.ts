@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { checkFinalLetters } from './finalLetters';
+
+describe('checkFinalLetters', () => {
+  it('accepts correctly written words', () => {
+    expect(checkFinalLetters('פ"נ\nאברהם כהן\nנפטר בשם טוב')).toEqual([]);
+  });
+
+  it('reports a final letter in mid-word', () => {
+    const issues = checkFinalLetters('אםנו היקרה');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ category: 'spelling', severity: 'error', originalText: 'אםנו', suggestedFix: 'אמנו' });
+    expect(issues[0].location?.span).toEqual({ start: 0, end: 4 });
+  });
+
+  it('reports a regular form at the end of a word', () => {
+    expect(checkFinalLetters('אהרנ לוי')).toMatchObject([{ originalText: 'אהרנ', suggestedFix: 'אהרן' }]);
+  });
+
+  it('skips abbreviations, gematria numerals and dotted acronyms', () => {
+    expect(checkFinalLetters('ז"ל ך"ג ר\' ת.נ.צ.ב.ה')).toEqual([]);
+  });
+
+  it('skips the Masoretic exception לםרבה', () => {
+    expect(checkFinalLetters('לםרבה המשרה')).toEqual([]);
+  });
+});
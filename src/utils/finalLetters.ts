@@ -0,0 +1,73 @@
+/**
+ * Final Letters
+ * Flags words with a final (sofit) letter in mid-word or a regular form at
+ * the end - ם for מ, נ for ן - a classic typesetting slip on stones
+ */
+
+import type { ProofreadingIssue } from '../types/proofreader';
+import { fixFinalLetters, normalizeFinalLetters } from './hebrewTextUtils';
+
+// Words spelt with a mid-word final letter in the Masoretic text
+const FINAL_LETTER_EXCEPTIONS = new Set(['לםרבה']);
+
+// A run of Hebrew letters with any abbreviation marks or acronym dots inside it
+const TOKEN_PATTERN = /[א-ת]+(?:[."'״׳][א-ת]*)*/g;
+
+/**
+ * Describe what is wrong with the letter forms of a word, in Hebrew
+ */
+function describeProblems(word: string): string {
+  const problems: string[] = [];
+  const last = word.length - 1;
+
+  [...word.slice(0, last)].forEach((letter) => {
+    if (/[ךםןףץ]/.test(letter)) {
+      problems.push(`"${letter}" סופית באמצע המילה במקום "${normalizeFinalLetters(letter)}"`);
+    }
+  });
+
+  const fixedLast = fixFinalLetters(word).slice(-1);
+  if (fixedLast !== word[last]) {
+    problems.push(`"${word[last]}" בסוף המילה במקום "${fixedLast}"`);
+  }
+
+  return problems.join('; ');
+}
+
+/**
+ * Check every word of the text for misplaced final and non-final letter
+ * forms. Abbreviations and gematria numerals (ז"ל, ך"ג, ר') and dotted
+ * acronyms (ת.נ.צ.ב.ה) are skipped, since their letters follow no word-final rule.
+ */
+export function checkFinalLetters(rawText: string): ProofreadingIssue[] {
+  if (!rawText) return [];
+
+  const issues: ProofreadingIssue[] = [];
+
+  for (const line of rawText.split('\n')) {
+    for (const match of line.matchAll(TOKEN_PATTERN)) {
+      if (/["'״׳]/.test(match[0])) continue;
+
+      const word = match[0].replace(/\.+$/, '');
+      if (word.includes('.') || word.length < 2 || FINAL_LETTER_EXCEPTIONS.has(word)) continue;
+
+      const fixed = fixFinalLetters(word);
+      if (fixed === word) continue;
+
+      issues.push({
+        id: `final-${Date.now()}-${issues.length}`,
+        category: 'spelling',
+        severity: 'error',
+        originalText: word,
+        suggestedFix: fixed,
+        explanation: describeProblems(word),
+        location: {
+          context: line,
+          span: { start: match.index!, end: match.index! + word.length },
+        },
+      });
+    }
+  }
+
+  return issues;
+}
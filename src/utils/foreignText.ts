@@ -0,0 +1,290 @@
+/**
+ * Foreign-Language Sections
+ * Splits bilingual stones into Hebrew, Russian and English blocks and checks
+ * the non-Hebrew ones: mixed-script words, misspelt memorial vocabulary and
+ * month names, impossible dates and dates that disagree with the Hebrew section
+ */
+
+import type {
+  ExtractedTombstoneText,
+  ProofreadingIssue,
+  TextBlock,
+  TextLanguage,
+} from '../types/proofreader';
+import wordList from '../data/foreignWordList.json';
+import {
+  GREGORIAN_MONTH_NAMES,
+  editDistance,
+  extractGregorianDates,
+  lookupGregorianMonth,
+} from './hebrewTextUtils';
+import type { ParsedGregorianDate } from './hebrewTextUtils';
+import { isValidGregorianDate } from './hebrewDateValidator';
+
+const LANGUAGE_LABELS: Record<TextLanguage, string> = {
+  he: 'העברי',
+  ru: 'הרוסי',
+  en: 'האנגלי',
+};
+
+const SCRIPT_PATTERNS: Record<TextLanguage, RegExp> = {
+  he: /[א-ת]/g,
+  ru: /[А-Яа-яЁё]/g,
+  en: /[A-Za-z]/g,
+};
+
+const MONTH_NAMES: Record<'ru' | 'en', string[]> = {
+  ru: Object.keys(GREGORIAN_MONTH_NAMES).filter((name) => /[а-я]/.test(name)),
+  en: Object.keys(GREGORIAN_MONTH_NAMES).filter((name) => /[a-z]/.test(name)),
+};
+
+// Memorial vocabulary and month names; only words of four letters or more are
+// used for near-miss suggestions, so short words never "correct" each other
+const KNOWN_WORDS: Record<'ru' | 'en', Set<string>> = {
+  ru: new Set([...wordList.ru, ...MONTH_NAMES.ru]),
+  en: new Set([...wordList.en, ...MONTH_NAMES.en]),
+};
+
+// Latin letters that look identical to Cyrillic ones, the usual cause of
+// mixed-script words when a designer switches keyboard layouts mid-word
+const LATIN_TO_CYRILLIC: Record<string, string> = {
+  a: 'а', c: 'с', e: 'е', o: 'о', p: 'р', x: 'х', y: 'у',
+  A: 'А', B: 'В', C: 'С', E: 'Е', H: 'Н', K: 'К', M: 'М', O: 'О', P: 'Р', T: 'Т', X: 'Х',
+};
+const CYRILLIC_TO_LATIN: Record<string, string> = Object.fromEntries(
+  Object.entries(LATIN_TO_CYRILLIC).map(([latin, cyrillic]) => [cyrillic, latin])
+);
+
+// Russian months in the nominative; dates need the genitive (12 марта, not 12 март)
+const NOMINATIVE_TO_GENITIVE: Record<string, string> = {
+  'январь': 'января', 'февраль': 'февраля', 'март': 'марта', 'апрель': 'апреля',
+  'май': 'мая', 'июнь': 'июня', 'июль': 'июля', 'август': 'августа',
+  'сентябрь': 'сентября', 'октябрь': 'октября', 'ноябрь': 'ноября', 'декабрь': 'декабря',
+};
+
+/**
+ * The language a piece of text is mostly written in, by letter count
+ */
+export function detectLanguage(text: string): TextLanguage | null {
+  let best: TextLanguage | null = null;
+  let bestCount = 0;
+
+  for (const language of Object.keys(SCRIPT_PATTERNS) as TextLanguage[]) {
+    const count = text.match(SCRIPT_PATTERNS[language])?.length ?? 0;
+    if (count > bestCount) {
+      best = language;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split raw text into runs of lines in one language. Lines with no letters
+ * (dates, separators) stay with the block they are in.
+ */
+export function splitTextBlocks(rawText: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+
+  for (const line of rawText.split('\n')) {
+    const language = detectLanguage(line);
+    const current = blocks[blocks.length - 1];
+
+    if (current && (language === null || language === current.language)) {
+      current.text += `\n${line}`;
+    } else if (language !== null) {
+      blocks.push({ language, text: line });
+    }
+  }
+
+  return blocks.map((block) => ({ ...block, text: block.text.trim() }));
+}
+
+/**
+ * The language blocks of a stone: as the model tagged them, or split from the raw text
+ */
+export function getTextBlocks(extracted: ExtractedTombstoneText): TextBlock[] {
+  if (extracted.textBlocks && extracted.textBlocks.length > 0) {
+    return extracted.textBlocks;
+  }
+  return splitTextBlocks(extracted.rawText || '');
+}
+
+/**
+ * Rewrite a mixed-script word entirely in its majority script, or null when
+ * a letter has no look-alike there
+ */
+function unifyScript(word: string): string | null {
+  const cyrillic = word.match(SCRIPT_PATTERNS.ru)?.length ?? 0;
+  const latin = word.match(SCRIPT_PATTERNS.en)?.length ?? 0;
+  const map = cyrillic >= latin ? LATIN_TO_CYRILLIC : CYRILLIC_TO_LATIN;
+  const foreign = cyrillic >= latin ? SCRIPT_PATTERNS.en : SCRIPT_PATTERNS.ru;
+
+  let missing = false;
+  const unified = word.replace(foreign, (letter) => {
+    if (!map[letter]) missing = true;
+    return map[letter] ?? letter;
+  });
+
+  return missing ? null : unified;
+}
+
+/**
+ * Whether a word is memorial vocabulary or a month name rather than a name
+ */
+export function isKnownWord(word: string, language: 'ru' | 'en'): boolean {
+  return KNOWN_WORDS[language].has(word.toLowerCase().replace(/ё/g, 'е'));
+}
+
+/**
+ * A known word one edit away from the given word, keeping its capitalisation
+ */
+function nearMiss(word: string, language: 'ru' | 'en'): string | null {
+  const lower = word.toLowerCase().replace(/ё/g, 'е');
+  if (lower.length < 4 || KNOWN_WORDS[language].has(lower)) return null;
+
+  for (const known of KNOWN_WORDS[language]) {
+    if (known.length >= 4 && editDistance(lower, known) === 1) {
+      return word[0] === word[0].toUpperCase() ? known[0].toUpperCase() + known.slice(1) : known;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Spelling issues in one line of a Russian or English block
+ */
+function checkLine(line: string, language: 'ru' | 'en', names: Set<string>): ProofreadingIssue[] {
+  const issues: ProofreadingIssue[] = [];
+  const label = LANGUAGE_LABELS[language];
+
+  const add = (originalText: string, suggestedFix: string | undefined, explanation: string, start: number, severity: ProofreadingIssue['severity']) => {
+    issues.push({
+      id: `foreign-${Date.now()}-${issues.length}`,
+      category: 'spelling',
+      severity,
+      originalText,
+      suggestedFix,
+      explanation,
+      location: {
+        section: language,
+        context: line,
+        span: { start, end: start + originalText.length },
+      },
+    });
+  };
+
+  for (const match of line.matchAll(/\p{L}+/gu)) {
+    const word = match[0];
+    const start = match.index!;
+
+    if (/[A-Za-z]/.test(word) && /[А-Яа-яЁё]/.test(word)) {
+      const unified = unifyScript(word);
+      add(word, unified ?? undefined, `המילה "${word}" מערבבת אותיות לטיניות וקיריליות - כנראה הוקלדה בשתי פריסות מקלדת`, start, 'error');
+      continue;
+    }
+
+    const genitive = NOMINATIVE_TO_GENITIVE[word.toLowerCase()];
+    if (language === 'ru' && genitive && /^\s*\d{4}/.test(line.slice(start + word.length)) && /\d\s*$/.test(line.slice(0, start))) {
+      add(word, genitive, `בתאריך ברוסית שם החודש בא ביחסת הקניין: "${genitive}" ולא "${word}"`, start, 'error');
+      continue;
+    }
+
+    if (names.has(word.toLowerCase()) || lookupGregorianMonth(word) !== null) continue;
+
+    const fix = nearMiss(word, language);
+    if (fix) {
+      add(word, fix, `"${word}" בקטע ${label} אינה מילה מוכרת - אולי "${fix}"`, start, 'warning');
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Compare a date in a foreign block with the Hebrew section's date of the same kind
+ */
+function compareDates(
+  foreign: ParsedGregorianDate | null,
+  hebrew: ParsedGregorianDate | null,
+  blockText: string,
+  hebrewText: string,
+  language: TextLanguage,
+  kind: string
+): string | null {
+  if (!foreign || !hebrew) return null;
+
+  const sameDay = foreign.day === null || hebrew.day === null
+    || (foreign.day === hebrew.day && foreign.month === hebrew.month);
+  if (foreign.year === hebrew.year && sameDay) return null;
+
+  return `תאריך ה${kind} בקטע ${LANGUAGE_LABELS[language]} ("${blockText.slice(foreign.start, foreign.end)}") `
+    + `שונה מהתאריך בעברית ("${hebrewText.slice(hebrew.start, hebrew.end)}")`;
+}
+
+/**
+ * Check the Russian and English sections of a stone: spelling of each word,
+ * month names and their case, that every date exists, and that birth and
+ * death dates agree with the ones in the Hebrew section
+ */
+export function checkForeignText(extracted: ExtractedTombstoneText): ProofreadingIssue[] {
+  const blocks = getTextBlocks(extracted);
+  if (!blocks.some((block) => block.language !== 'he')) return [];
+
+  // Names are checked against the Hebrew name, not the vocabulary
+  const names = new Set(
+    extracted.memorials
+      .flatMap((memorial) => (memorial.transliteratedName || '').split(/[\s-]+/))
+      .map((name) => name.toLowerCase())
+      .filter(Boolean)
+  );
+
+  const hebrewText = blocks.filter((block) => block.language === 'he').map((block) => block.text).join('\n');
+  const hebrewDates = extractGregorianDates(hebrewText);
+  const issues: ProofreadingIssue[] = [];
+
+  for (const block of blocks) {
+    if (block.language === 'he') continue;
+    const language = block.language;
+
+    for (const line of block.text.split('\n')) {
+      issues.push(...checkLine(line, language, names));
+    }
+
+    const dates = extractGregorianDates(block.text);
+    for (const date of [dates.birthDate, dates.deathDate]) {
+      if (!date || date.day === null || date.month === null) continue;
+      if (isValidGregorianDate(date.day, date.month, date.year)) continue;
+
+      const text = block.text.slice(date.start, date.end);
+      issues.push({
+        id: `foreign-${Date.now()}-${issues.length}`,
+        category: 'date_mismatch',
+        severity: 'error',
+        originalText: text,
+        explanation: `התאריך "${text}" בקטע ${LANGUAGE_LABELS[language]} אינו קיים בלוח הגרגוריאני`,
+        location: { section: language, context: text },
+      });
+    }
+
+    const mismatches: Array<[ParsedGregorianDate | null, string | null]> = [
+      [dates.birthDate, compareDates(dates.birthDate, hebrewDates.birthDate, block.text, hebrewText, language, 'לידה')],
+      [dates.deathDate, compareDates(dates.deathDate, hebrewDates.deathDate, block.text, hebrewText, language, 'פטירה')],
+    ];
+    for (const [date, explanation] of mismatches) {
+      if (!date || !explanation) continue;
+      issues.push({
+        id: `foreign-${Date.now()}-${issues.length}`,
+        category: 'date_mismatch',
+        severity: 'error',
+        originalText: block.text.slice(date.start, date.end),
+        explanation,
+        location: { section: language, context: block.text.slice(date.start, date.end) },
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractedTombstoneText, MemorialEntry } from '../types/proofreader';
+import { checkGenderAgreement, findGenderCues, inferMemorialGenders } from './genderAgreement';
+
+function stone(rawText: string, memorials: MemorialEntry[]): ExtractedTombstoneText {
+  return { rawText, memorials, headerFormulas: [], footerFormulas: [] };
+}
+
+describe('findGenderCues', () => {
+  it('skips the parents named after a patronymic', () => {
+    const cues = findGenderCues("מרת רחל לוי בת ר' יעקב ולאה");
+    expect(cues.map((cue) => cue.text)).toEqual(['מרת', 'בת']);
+  });
+
+  it('skips the husband named after אשת', () => {
+    const cues = findGenderCues('אשת הרב משה כהן');
+    expect(cues.map((cue) => cue.text)).toEqual(['אשת']);
+  });
+
+  it('picks up again after a comma ends the parent clause', () => {
+    const cues = findGenderCues("בת ר' יעקב, נפטרה בשם טוב");
+    expect(cues.map((cue) => cue.text)).toEqual(['בת', 'נפטרה']);
+  });
+
+  it('reads בן followed by a number as the age, not a patronymic', () => {
+    const cues = findGenderCues('בן 87 שנים נפטר');
+    expect(cues.map((cue) => cue.text)).toEqual(['בן', 'נפטר']);
+  });
+
+  it('does not take בן ציון as a patronymic', () => {
+    expect(findGenderCues('בן ציון לוי')).toEqual([]);
+  });
+});
+
+describe('checkGenderAgreement', () => {
+  it('accepts a correct male stone', () => {
+    const text = stone(
+      "פ\"נ\nאבינו היקר\nהרב משה כהן\nבן ר' יעקב ושרה\nנפטר בשם טוב\nזכרונו לברכה",
+      [{ name: 'הרב משה כהן', parentNames: "בן ר' יעקב ושרה" }]
+    );
+    expect(inferMemorialGenders(text)[0].gender).toBe('male');
+    expect(checkGenderAgreement(text)).toEqual([]);
+  });
+
+  it('accepts a correct female stone with the father\'s title', () => {
+    const text = stone(
+      "פ\"נ\nאמנו היקרה\nמרת רחל לוי בת ר' יעקב ולאה\nנפטרה בשם טוב\nזכרונה לברכה",
+      [{ name: 'רחל לוי', parentNames: "בת ר' יעקב ולאה" }]
+    );
+    expect(inferMemorialGenders(text)[0].gender).toBe('female');
+    expect(checkGenderAgreement(text)).toEqual([]);
+  });
+
+  it('does not suggest הרבנית for the father in בת הרב', () => {
+    const text = stone('פ"נ\nרחל לוי\nבת הרב יעקב\nנפטרה בשם טוב', [{ name: 'רחל לוי' }]);
+    expect(checkGenderAgreement(text)).toEqual([]);
+  });
+
+  it('does not flag the husband\'s title on a wife\'s stone', () => {
+    const text = stone('פ"נ\nמרת שרה כהן\nאשת הרב משה\nנפטרה בשם טוב', [{ name: 'שרה כהן' }]);
+    expect(checkGenderAgreement(text)).toEqual([]);
+  });
+
+  it('reports a verb in the wrong gender with its counterpart', () => {
+    const text = stone('פ"נ\nאמנו היקרה\nמרת רחל לוי\nנפטר בשם טוב', [{ name: 'רחל לוי' }]);
+    const issues = checkGenderAgreement(text);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ category: 'grammar', severity: 'error', originalText: 'נפטר', suggestedFix: 'נפטרה' });
+  });
+
+  it('checks each memorial on a double stone against its own gender', () => {
+    const text = stone(
+      'פ"נ\nאבינו\nמשה כהן\nנפטר בשם טוב\nאמנו\nרחל כהן\nנפטר בשם טוב',
+      [{ name: 'משה כהן' }, { name: 'רחל כהן' }]
+    );
+    const issues = checkGenderAgreement(text);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].location?.section).toBe('רחל כהן');
+  });
+});
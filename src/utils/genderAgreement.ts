@@ -0,0 +1,318 @@
+/**
+ * Gender Agreement
+ * Deterministic check that gendered words on a stone (בן/בת, נפטר/נפטרה,
+ * זכרונו/זכרונה...) agree with the gender of the memorial they belong to
+ */
+
+import type {
+  ExtractedTombstoneText,
+  Gender,
+  MemorialEntry,
+  ProofreadingIssue,
+  TextSpan,
+} from '../types/proofreader';
+import { normalizeQuotes } from './hebrewTextUtils';
+
+// A gendered word and its counterpart; weight is how strongly it marks the deceased's gender
+interface GenderPair {
+  male: string;
+  female: string;
+  weight: number;
+}
+
+// 3 = kinship terms, titles and patronymics, 2 = verbs and possessive suffixes, 1 = adjectives
+const GENDER_PAIRS: GenderPair[] = [
+  { male: 'בן', female: 'בת', weight: 3 },
+  { male: 'אבינו', female: 'אמנו', weight: 3 },
+  { male: 'אבי', female: 'אמי', weight: 3 },
+  { male: 'אבא', female: 'אמא', weight: 3 },
+  { male: 'בעלי', female: 'אשתי', weight: 3 },
+  { male: 'בעלי', female: 'רעייתי', weight: 3 },
+  { male: 'בננו', female: 'בתנו', weight: 3 },
+  { male: 'אחינו', female: 'אחותנו', weight: 3 },
+  { male: 'סבנו', female: 'סבתנו', weight: 3 },
+  { male: 'סבא', female: 'סבתא', weight: 3 },
+  { male: 'דודנו', female: 'דודתנו', weight: 3 },
+  { male: 'נכדנו', female: 'נכדתנו', weight: 3 },
+  { male: 'חמנו', female: 'חמותנו', weight: 3 },
+  { male: 'הרב', female: 'הרבנית', weight: 3 },
+  { male: "ר'", female: 'מרת', weight: 3 },
+  { male: 'נפטר', female: 'נפטרה', weight: 2 },
+  { male: 'נולד', female: 'נולדה', weight: 2 },
+  { male: 'נלקח', female: 'נלקחה', weight: 2 },
+  { male: 'נקטף', female: 'נקטפה', weight: 2 },
+  { male: 'נהרג', female: 'נהרגה', weight: 2 },
+  { male: 'נרצח', female: 'נרצחה', weight: 2 },
+  { male: 'נפל', female: 'נפלה', weight: 2 },
+  { male: 'נקבר', female: 'נקברה', weight: 2 },
+  { male: 'הלך', female: 'הלכה', weight: 2 },
+  { male: 'המנוח', female: 'המנוחה', weight: 2 },
+  { male: 'זכרונו', female: 'זכרונה', weight: 2 },
+  { male: 'נשמתו', female: 'נשמתה', weight: 2 },
+  { male: 'מנוחתו', female: 'מנוחתה', weight: 2 },
+  { male: 'לעולמו', female: 'לעולמה', weight: 2 },
+  { male: 'ימיו', female: 'ימיה', weight: 2 },
+  { male: 'חייו', female: 'חייה', weight: 2 },
+  { male: 'בחייו', female: 'בחייה', weight: 2 },
+  { male: 'ליבו', female: 'ליבה', weight: 2 },
+  { male: 'לבו', female: 'לבה', weight: 2 },
+  { male: 'דרכו', female: 'דרכה', weight: 2 },
+  { male: 'ילדיו', female: 'ילדיה', weight: 2 },
+  { male: 'נכדיו', female: 'נכדיה', weight: 2 },
+  { male: 'משפחתו', female: 'משפחתה', weight: 2 },
+  { male: 'איש', female: 'אשת', weight: 2 },
+  { male: 'איש', female: 'אשה', weight: 2 },
+  { male: 'היקר', female: 'היקרה', weight: 1 },
+  { male: 'יקר', female: 'יקרה', weight: 1 },
+  { male: 'האהוב', female: 'האהובה', weight: 1 },
+  { male: 'אהוב', female: 'אהובה', weight: 1 },
+  { male: 'הנאמן', female: 'הנאמנה', weight: 1 },
+  { male: 'הצנוע', female: 'הצנועה', weight: 1 },
+  { male: 'הדגול', female: 'הדגולה', weight: 1 },
+  { male: 'הנערץ', female: 'הנערצה', weight: 1 },
+  { male: 'האוהב', female: 'האוהבת', weight: 1 },
+  { male: 'המסור', female: 'המסורה', weight: 1 },
+];
+
+// Every gendered form with its counterpart; the first pair listing a form wins
+const GENDER_FORMS = new Map<string, { gender: Gender; counterpart: string; weight: number }>();
+for (const { male, female, weight } of GENDER_PAIRS) {
+  if (!GENDER_FORMS.has(male)) GENDER_FORMS.set(male, { gender: 'male', counterpart: female, weight });
+  if (!GENDER_FORMS.has(female)) GENDER_FORMS.set(female, { gender: 'female', counterpart: male, weight });
+}
+
+/**
+ * Whether a word is one of the gendered forms the agreement check knows
+ */
+export function isGenderedWord(word: string): boolean {
+  return GENDER_FORMS.has(word);
+}
+
+// Given names written with בן/בת that are not patronymics ("בן ציון", "בת שבע")
+const COMPOUND_NAME_PARTS = ['ציון', 'שבע', 'עמי', 'אל'];
+
+// Words followed by the name of another person: the parents or the husband
+const RELATION_WORDS = ['בן', 'בת', 'אשת', 'רעיית', 'אלמנת'];
+
+// Ends the clause naming that person
+const CLAUSE_END_PATTERN = /[,;.:\-–—־]/;
+
+// Hebrew words, including abbreviations with geresh/gershayim ("ר'", "ז"ל")
+const HEBREW_WORD_PATTERN = /[א-ת]+(?:["'״׳][א-ת]*)?/g;
+
+const GENDER_LABELS: Record<Gender, string> = { male: 'זכר', female: 'נקבה' };
+
+/**
+ * A gendered word found in a memorial's text
+ */
+export interface GenderCue {
+  text: string;
+  gender: Gender;
+  weight: number;
+  suggestedFix: string;  // The same word in the other gender, keeping any ו prefix
+  context: string;       // The line the word appears on
+  span: TextSpan;        // Position of the word within the line
+}
+
+/**
+ * A memorial with the gender inferred from its cues (null when they do not settle it)
+ */
+export interface MemorialGender {
+  memorial: MemorialEntry;
+  gender: Gender | null;
+  cues: GenderCue[];
+}
+
+/**
+ * Find gendered words in text, line by line. Words after בן/בת or אשת name
+ * the parents or the husband ("בת ר' יעקב ולאה", "אשת הרב משה"), so their
+ * titles say nothing about the deceased; they are skipped up to the end of
+ * the line or a comma or dash.
+ */
+export function findGenderCues(text: string): GenderCue[] {
+  const cues: GenderCue[] = [];
+
+  for (const line of text.split('\n')) {
+    const words = [...line.matchAll(HEBREW_WORD_PATTERN)];
+    let otherPerson = false;
+
+    words.forEach((match, index) => {
+      const previousEnd = index > 0 ? words[index - 1].index! + words[index - 1][0].length : 0;
+      if (CLAUSE_END_PATTERN.test(line.slice(previousEnd, match.index))) otherPerson = false;
+      if (otherPerson) return;
+
+      const word = normalizeQuotes(match[0]);
+      const prefix = !GENDER_FORMS.has(word) && word.startsWith('ו') ? 'ו' : '';
+      const bare = word.slice(prefix.length);
+
+      // "בן ציון" and "בת שבע" are names, not "son of" / "daughter of"
+      if ((bare === 'בן' || bare === 'בת') && COMPOUND_NAME_PARTS.includes(words[index + 1]?.[0] ?? '')) {
+        return;
+      }
+      // "בן 87" states the age; anything else after the word names another person
+      const after = line.slice(match.index! + match[0].length);
+      if (RELATION_WORDS.includes(bare) && !/^\s*\d/.test(after)) {
+        otherPerson = true;
+      }
+
+      const form = GENDER_FORMS.get(bare);
+      if (!form) return;
+
+      cues.push({
+        text: match[0],
+        gender: form.gender,
+        weight: form.weight,
+        suggestedFix: `${prefix}${form.counterpart}`,
+        context: line,
+        span: { start: match.index!, end: match.index! + match[0].length },
+      });
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Infer a gender from cues: the strongest weight at which one gender
+ * outnumbers the other decides
+ */
+function inferGender(cues: GenderCue[]): { gender: Gender; weight: number } | null {
+  for (const weight of [3, 2, 1]) {
+    const male = cues.filter((cue) => cue.weight === weight && cue.gender === 'male').length;
+    const female = cues.filter((cue) => cue.weight === weight && cue.gender === 'female').length;
+    if (male !== female) {
+      return { gender: male > female ? 'male' : 'female', weight };
+    }
+  }
+  return null;
+}
+
+/**
+ * Index of the first line at or after `from` that mentions the memorial's name
+ * (the full name, or its first word when the model shortened it)
+ */
+function findNameLine(lines: string[], memorial: MemorialEntry, from: number): number {
+  const name = memorial.name?.trim();
+  if (!name) return -1;
+
+  const firstWord = name.split(/\s+/)[0];
+  for (const needle of [name, firstWord]) {
+    if (needle.length < 2) continue;
+    const index = lines.findIndex((line, i) => i >= from && line.includes(needle));
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+/**
+ * Split the stone text into one block per memorial. A block starts at the
+ * memorial's name, moved up over the kinship line before it ("אמנו היקרה"),
+ * and runs to the start of the next block. Returns null where a name is not found.
+ */
+function segmentMemorials(rawText: string, memorials: MemorialEntry[]): Array<string | null> {
+  if (memorials.length === 1) return [rawText];
+
+  const lines = rawText.split('\n');
+  const starts: Array<number | null> = [];
+  let searchFrom = 0;
+
+  for (const memorial of memorials) {
+    const nameLine = findNameLine(lines, memorial, searchFrom);
+    if (nameLine === -1) {
+      starts.push(null);
+      continue;
+    }
+
+    let start = nameLine;
+    while (start > searchFrom) {
+      const previous = lines[start - 1];
+      const isKinshipLine = (!!memorial.relationship && previous.includes(memorial.relationship))
+        || findGenderCues(previous).some((cue) => cue.weight === 3);
+      if (!isKinshipLine) break;
+      start--;
+    }
+
+    starts.push(start);
+    searchFrom = nameLine + 1;
+  }
+
+  return starts.map((start, index) => {
+    if (start === null) return null;
+    // Text above the first memorial (the family header) belongs to no one in particular
+    const next = starts.slice(index + 1).find((value): value is number => value !== null);
+    return lines.slice(start, next ?? lines.length).join('\n');
+  });
+}
+
+/**
+ * The memorial's own extracted fields, one per line, for stones whose text
+ * could not be split by name
+ */
+function memorialFieldsText(memorial: MemorialEntry): string {
+  return [
+    memorial.name,
+    memorial.relationship,
+    // The parents' own titles only count behind the patronymic that sets them apart
+    /^ו?(בן|בת)\s/.test(memorial.parentNames ?? '') ? memorial.parentNames : undefined,
+    memorial.statedAge,
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Blank out the memorial's quote - verses speak of their own subject
+ * ("אשת חיל מי ימצא") - keeping line offsets intact
+ */
+function withoutQuote(text: string, quote?: string): string {
+  if (!quote || !text.includes(quote)) return text;
+  return text.replace(quote, quote.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Infer each memorial's gender from the gendered words in its part of the stone
+ */
+export function inferMemorialGenders(extracted: ExtractedTombstoneText): MemorialGender[] {
+  const segments = segmentMemorials(extracted.rawText || '', extracted.memorials);
+
+  return extracted.memorials.map((memorial, index) => {
+    const text = withoutQuote(segments[index] ?? memorialFieldsText(memorial), memorial.quote);
+    const cues = findGenderCues(text);
+    return { memorial, gender: inferGender(cues)?.gender ?? null, cues };
+  });
+}
+
+/**
+ * Report every gendered word that disagrees with its memorial's inferred gender
+ * as a grammar issue. Runs locally, so results are reproducible and do not
+ * depend on the AI model.
+ */
+export function checkGenderAgreement(extracted: ExtractedTombstoneText): ProofreadingIssue[] {
+  const issues: ProofreadingIssue[] = [];
+
+  for (const { memorial, cues } of inferMemorialGenders(extracted)) {
+    const inferred = inferGender(cues);
+    if (!inferred) continue;
+
+    const evidence = [...new Set(cues
+      .filter((cue) => cue.gender === inferred.gender && cue.weight === inferred.weight)
+      .map((cue) => `"${cue.text}"`))]
+      .slice(0, 3)
+      .join(', ');
+    const who = memorial.name ? `"${memorial.name}"` : 'הנפטר/ת';
+    const genderText = inferred.gender === 'male' ? 'גבר' : 'אישה';
+
+    for (const cue of cues.filter((c) => c.gender !== inferred.gender)) {
+      issues.push({
+        id: `grammar-${Date.now()}-${issues.length}`,
+        category: 'grammar',
+        // Adjectives alone are weak evidence, so a conflict they decide is only a warning
+        severity: inferred.weight >= 2 ? 'error' : 'warning',
+        originalText: cue.text,
+        suggestedFix: cue.suggestedFix,
+        explanation: `"${cue.text}" בלשון ${GENDER_LABELS[cue.gender]}, אך ${who} מזוהה כ${genderText} לפי ${evidence}`,
+        location: { section: memorial.name, context: cue.context, span: cue.span },
+      });
+    }
+  }
+
+  return issues;
+}
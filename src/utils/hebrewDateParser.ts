@@ -0,0 +1,441 @@
+/**
+ * Hebrew Date Parser
+ * Tokenizes a Hebrew date string and reads it with a small grammar, keeping the
+ * source span and a confidence level for every recognised component
+ */
+
+import { HDate } from '@hebcal/core';
+import type {
+  DateComponent,
+  DateComponentKind,
+  DateToken,
+  ParseConfidence,
+} from '../types/proofreader';
+import {
+  hebrewNumeralToInt,
+  normalizeQuotes,
+  lookupHebrewMonth,
+  parseHebrewMonth,
+  getHebrewMonthName,
+} from './hebrewTextUtils';
+import { findSpecialDayPhrase, resolveSpecialDay } from './hebrewSpecialDays';
+
+// Phrases meaning the death was after sunset, i.e. on the evening before the Hebrew day
+const SUNSET_PHRASES = [
+  'אור', 'ליל', 'בליל', 'מוצאי', 'במוצאי',
+  'מוצ"ש', 'במוצ"ש', 'מוצש"ק', 'במוצש"ק',
+];
+
+// Phrases ending Shabbat or a weekday at nightfall - the Hebrew day is the following one
+const MOTZAEI_PHRASES = ['מוצאי', 'במוצאי'];
+const MOTZAEI_SHABBAT_ABBREVIATIONS = ['מוצ"ש', 'במוצ"ש', 'מוצש"ק', 'במוצש"ק'];
+
+// Words introducing a weekday ("ביום ג'")
+const DAY_WORDS = ['יום', 'ביום', 'ליום'];
+
+// Weekday names (0 = Sunday, as in HDate.getDay())
+const HEBREW_WEEKDAYS: Record<string, number> = {
+  'ראשון': 0,
+  'שני': 1,
+  'שלישי': 2,
+  'רביעי': 3,
+  'חמישי': 4,
+  'שישי': 5, 'ששי': 5,
+  'שבת': 6, 'ש"ק': 6,
+};
+
+// Words that accompany a date but are not part of its value
+const DATE_FILLER_WORDS = [
+  'ב', 'ל', "נפ'", 'קודש', 'נפטר', 'נפטרה', 'נלב"ע',
+  'שנת', 'בשנת', 'לפ"ק', 'ז"ל', 'ע"ה', 'הי"ד',
+];
+
+// Punctuation that may cling to a word: "תשע"ט," or "(תש"ח)"
+const LEADING_PUNCTUATION = /^[([,.;:–—-]+/;
+const TRAILING_PUNCTUATION = /[)\],.;:–—-]+$/;
+
+// A numeral as written: "ה'", "י"א", "תשע"ט" or unmarked "יא"
+const NUMERAL_SHAPE = /^(?:[א-ת]'|[א-ת]+"[א-ת]|[א-ת]{2,})$/;
+
+// Letter prefixes that may be attached to a numeral ("בי"א", "לט"ו", "התשע"ט")
+const NUMERAL_PREFIXES = ['ב', 'ל', 'ו', 'ה'];
+
+// Numbers the parser accepts as a day of the month
+const MAX_DAY = 30;
+
+/**
+ * A Hebrew date read from a string, with the legacy summary fields and the
+ * components and leftovers behind them
+ */
+export interface ParsedHebrewDate {
+  day: number | null;
+  month: number | null;
+  monthName: string | null;
+  year: number | null;
+  afterSunset: boolean;
+  sunsetPhrase: string | null;
+  specialDay: string | null;
+  weekday: number | null;
+  weekdayText: string | null;
+  components: DateComponent[];
+  unparsed: DateToken[];
+}
+
+// A whitespace-separated word; normalized text has ASCII quotes and the same length
+interface Token extends DateToken {
+  normalized: string;
+}
+
+// A numeral read from one word
+interface HebrewNumeral {
+  value: number;
+  thousands: boolean;  // Written with a thousands prefix: ה'תשע"ט
+  marked: boolean;     // Written with geresh/gershayim
+  prefixLength: number;
+}
+
+/**
+ * Split a date string into words, dropping surrounding punctuation
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(/\S+/g)) {
+    const raw = match[0];
+    const lead = raw.match(LEADING_PUNCTUATION)?.[0].length ?? 0;
+    const trail = raw.slice(lead).match(TRAILING_PUNCTUATION)?.[0].length ?? 0;
+    const word = raw.slice(lead, raw.length - trail);
+    if (!word) continue;
+
+    const start = match.index! + lead;
+    tokens.push({ text: word, normalized: normalizeQuotes(word), start, end: start + word.length });
+  }
+
+  return tokens;
+}
+
+/**
+ * Drop the first characters of a token, keeping its span aligned with the source
+ */
+function sliceToken(token: Token, length: number): Token {
+  return {
+    text: token.text.slice(length),
+    normalized: token.normalized.slice(length),
+    start: token.start + length,
+    end: token.end,
+  };
+}
+
+/**
+ * Whether letters form a numeral in standard order: values never increase,
+ * only ת repeats, and ט"ו/ט"ז stand in for 15/16
+ */
+function isWellFormedNumeral(letters: string): boolean {
+  if (/[ךםןףץ]/.test(letters)) return false;
+
+  const body = letters.replace(/ט[וז]$/, '');
+  let previous = Infinity;
+  for (const letter of body) {
+    const value = hebrewNumeralToInt(letter)!;
+    if (value > previous || (value === previous && letter !== 'ת')) return false;
+    previous = value;
+  }
+
+  // The ט"ו/ט"ז pair sits in the units and tens place
+  return body === letters || previous >= 100;
+}
+
+/**
+ * Read one word as a numeral, allowing a thousands prefix (ה'תשע"ט) and a
+ * ב/ל/ו/ה prefix when the letters are otherwise out of order
+ */
+function readNumeral(normalized: string): HebrewNumeral | null {
+  const thousandsMatch = normalized.match(/^([א-ט])'(?=[א-ת])/);
+  const body = thousandsMatch ? normalized.slice(2) : normalized;
+
+  if (NUMERAL_SHAPE.test(body) && isWellFormedNumeral(body.replace(/['"]/g, ''))) {
+    const value = hebrewNumeralToInt(body)!;
+    return {
+      value: thousandsMatch ? hebrewNumeralToInt(thousandsMatch[1])! * 1000 + value : value,
+      thousands: !!thousandsMatch,
+      marked: /['"]/.test(body),
+      prefixLength: 0,
+    };
+  }
+
+  if (!thousandsMatch && NUMERAL_PREFIXES.includes(normalized[0]) && normalized.length > 2) {
+    const inner = readNumeral(normalized.slice(1));
+    if (inner && inner.prefixLength === 0) {
+      return { ...inner, prefixLength: 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Full year from a numeral; the thousands are usually omitted (תשע"ט = 5779)
+ */
+function toHebrewYear(numeral: HebrewNumeral): number {
+  return numeral.value < 1000 ? 5000 + numeral.value : numeral.value;
+}
+
+/**
+ * Look up a weekday name, allowing a ב/ל prefix ("בשבת", "לשני")
+ */
+function lookupWeekday(word: string): number | null {
+  if (HEBREW_WEEKDAYS[word] !== undefined) return HEBREW_WEEKDAYS[word];
+  const withoutPrefix = word.replace(/^[בל]/, '');
+  if (withoutPrefix !== word && HEBREW_WEEKDAYS[withoutPrefix] !== undefined) {
+    return HEBREW_WEEKDAYS[withoutPrefix];
+  }
+  return null;
+}
+
+/**
+ * Find the component of a given kind in a parsed date
+ */
+export function findDateComponent(
+  parsed: ParsedHebrewDate,
+  kind: DateComponentKind
+): DateComponent | null {
+  return parsed.components.find((component) => component.kind === kind) ?? null;
+}
+
+/**
+ * Parse a complete Hebrew date string
+ * Examples: "י"א סיון תשע"ט", "ה' בטבת ה'תשפ"ו", "אור לי"א סיון תשע"ט", "ערב פסח תשפ"ה",
+ * "ביום ג' י"א סיון תשע"ט"
+ *
+ * The grammar is: [weekday] [sunset phrase] [weekday] (special day | [day] month) [year],
+ * with filler words allowed anywhere. A numeral before the month is the day and one
+ * after it is the year; where position does not settle it the value decides, at a
+ * lower confidence. Words that fit nowhere are returned as unparsed leftovers.
+ *
+ * The weekday is that of the Hebrew day, so "אור ליום ג'" and "מוצאי שבת" name the
+ * day that begins at that sunset (Tuesday and Sunday respectively).
+ */
+export function parseHebrewDate(dateStr: string): ParsedHebrewDate {
+  const components: DateComponent[] = [];
+  const unparsed: DateToken[] = [];
+
+  const find = (kind: DateComponentKind) =>
+    components.find((component) => component.kind === kind) ?? null;
+
+  // The first component of each kind wins; repeats are leftovers
+  const add = (
+    kind: DateComponentKind,
+    start: number,
+    end: number,
+    value: number | null,
+    confidence: ParseConfidence
+  ) => {
+    const text = dateStr.slice(start, end);
+    if (find(kind)) {
+      unparsed.push({ text, start, end });
+    } else {
+      components.push({ kind, text, start, end, value, confidence });
+    }
+  };
+
+  const tokens = dateStr ? tokenize(dateStr) : [];
+
+  // Holiday phrases ("ערב פסח", "ראש חודש אלול") stand in for day and month
+  const special = dateStr ? findSpecialDayPhrase(dateStr) : null;
+  if (special) {
+    add('specialDay', special.start, special.end, null, 'high');
+  }
+
+  const isMonthAt = (index: number) => {
+    const token = tokens[index];
+    if (!token) return false;
+    const next = tokens[index + 1];
+    return lookupHebrewMonth(token.text) !== null
+      || (!!next && lookupHebrewMonth(`${token.text} ${next.text}`) !== null);
+  };
+
+  let expectWeekday = false;
+  let afterMotzaei = false;
+  let afterOr = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    let token = tokens[i];
+    const next = tokens[i + 1];
+
+    // Words inside the holiday phrase are already accounted for
+    if (special && token.start < special.end && token.end > special.start) continue;
+
+    // Two-word month names ("אדר ב'", "מנחם אב", "מר חשון")
+    if (next && lookupHebrewMonth(`${token.text} ${next.text}`) !== null) {
+      add('month', token.start, next.end, lookupHebrewMonth(`${token.text} ${next.text}`), 'high');
+      i++;
+      continue;
+    }
+
+    // Sunset-boundary phrases ("אור ל", "ליל", "מוצאי")
+    if (SUNSET_PHRASES.includes(token.normalized)) {
+      add('sunset', token.start, token.end, null, 'high');
+      afterOr = token.normalized === 'אור';
+      afterMotzaei = MOTZAEI_PHRASES.includes(token.normalized);
+      if (MOTZAEI_SHABBAT_ABBREVIATIONS.includes(token.normalized)) {
+        add('weekday', token.start, token.end, 0, 'high');
+      }
+      continue;
+    }
+
+    // "אור ל..." - the lamed may be attached to the day ("אור לי\"א")
+    if (afterOr) {
+      afterOr = false;
+      const sunset = find('sunset')!;
+      if (token.text === 'ל' || token.text === 'ליום') {
+        sunset.end = token.end;
+        sunset.text = dateStr.slice(sunset.start, sunset.end);
+        expectWeekday = token.text === 'ליום';
+        continue;
+      }
+      if (token.text.startsWith('ל') && lookupHebrewMonth(token.text) === null) {
+        const prefixLength = token.text.startsWith('ל-') ? 2 : 1;
+        sunset.end = token.start + 1;
+        sunset.text = dateStr.slice(sunset.start, sunset.end);
+        token = sliceToken(token, prefixLength);
+      }
+    }
+
+    // Weekday: "ביום ג'", "ביום שלישי", "בשבת", "ליל שישי", "מוצאי שבת"
+    if (DAY_WORDS.includes(token.text)) {
+      expectWeekday = true;
+      continue;
+    }
+
+    const weekdayValue = lookupWeekday(token.normalized);
+    if (weekdayValue !== null && (weekdayValue === 6 || expectWeekday || find('sunset'))) {
+      add('weekday', token.start, token.end, afterMotzaei ? (weekdayValue + 1) % 7 : weekdayValue, 'high');
+      expectWeekday = false;
+      afterMotzaei = false;
+      continue;
+    }
+
+    // A letter after "יום" is the weekday, unless a month follows ("אור ליום ג' סיון")
+    if (expectWeekday) {
+      expectWeekday = false;
+      if (/^[א-ו]'$/.test(token.normalized) && !isMonthAt(i + 1)) {
+        add('weekday', token.start, token.end, hebrewNumeralToInt(token.text)! - 1, 'high');
+        continue;
+      }
+    }
+
+    // "ערב שבת" is Friday
+    if ((token.text === 'ערב' || token.text === 'בערב') && next && lookupWeekday(next.normalized) === 6) {
+      add('weekday', token.start, next.end, 5, 'high');
+      i++;
+      continue;
+    }
+
+    if (DATE_FILLER_WORDS.includes(token.normalized)) continue;
+
+    const month = lookupHebrewMonth(token.text);
+    if (month !== null) {
+      add('month', token.start, token.end, month, 'high');
+      continue;
+    }
+
+    const numeral = readNumeral(token.normalized);
+    if (numeral) {
+      const start = token.start + numeral.prefixLength;
+      const monthSeen = find('month') !== null;
+      const nextIsMonth = isMonthAt(i + 1);
+      const nextNumeral = next ? readNumeral(next.normalized) : null;
+
+      // "ה' תשע"ט" - thousands written as a separate word
+      if (monthSeen && !numeral.thousands && numeral.marked && numeral.value < 10
+        && nextNumeral && !nextNumeral.thousands && nextNumeral.value >= 100) {
+        add('year', start, next!.end, numeral.value * 1000 + nextNumeral.value, 'high');
+        i++;
+        continue;
+      }
+
+      if (numeral.thousands || numeral.value >= 1000) {
+        add('year', start, token.end, toHebrewYear(numeral), numeral.thousands ? 'high' : 'medium');
+        continue;
+      }
+
+      if (!monthSeen) {
+        // "לי"א סיון" - a prefixed day read as 41 before a month
+        if (nextIsMonth && numeral.value > MAX_DAY && numeral.prefixLength === 0) {
+          const inner = readNumeral(token.normalized.slice(1));
+          if (inner && inner.value <= MAX_DAY && NUMERAL_PREFIXES.includes(token.normalized[0])) {
+            add('day', token.start + 1, token.end, inner.value, 'high');
+            continue;
+          }
+        }
+
+        // A second small numeral before the month is a repeated day, left unparsed
+        if (numeral.value <= MAX_DAY) {
+          const confidence = nextIsMonth ? 'high' : numeral.marked ? 'medium' : 'low';
+          add('day', start, token.end, numeral.value, confidence);
+        } else {
+          add('year', start, token.end, toHebrewYear(numeral), 'medium');
+        }
+        continue;
+      }
+
+      // After the month: a day only when a year still follows ("סיון י"א תשע"ט")
+      if (numeral.value <= MAX_DAY && !find('day') && nextNumeral) {
+        add('day', start, token.end, numeral.value, 'medium');
+      } else {
+        const confidence = numeral.value <= MAX_DAY ? 'low' : numeral.marked ? 'high' : 'medium';
+        add('year', start, token.end, toHebrewYear(numeral), confidence);
+      }
+      continue;
+    }
+
+    // Misspelt month names are matched partially
+    const partialMonth = parseHebrewMonth(token.text);
+    if (partialMonth !== null) {
+      add('month', token.start, token.end, partialMonth, 'medium');
+      continue;
+    }
+
+    unparsed.push({ text: token.text, start: token.start, end: token.end });
+  }
+
+  components.sort((a, b) => a.start - b.start);
+  unparsed.sort((a, b) => a.start - b.start);
+
+  const dayComponent = find('day');
+  const monthComponent = find('month');
+  const yearComponent = find('year');
+  const sunsetComponent = find('sunset');
+  const weekdayComponent = find('weekday');
+
+  let day = dayComponent?.value ?? null;
+  let month = monthComponent?.value ?? null;
+  let monthName = monthComponent?.text ?? null;
+  const year = yearComponent?.value ?? null;
+
+  // Resolve the holiday in the stated year unless the day was also written out
+  if (special && year && (day === null || month === null)) {
+    const resolved = resolveSpecialDay(special, year);
+    if (resolved) {
+      day = resolved.day;
+      month = resolved.month;
+      monthName = month === 12 && HDate.isLeapYear(year)
+        ? "אדר א'"
+        : getHebrewMonthName(month);
+    }
+  }
+
+  return {
+    day,
+    month,
+    monthName,
+    year,
+    afterSunset: sunsetComponent !== null,
+    sunsetPhrase: sunsetComponent?.text ?? null,
+    specialDay: special?.phrase ?? null,
+    weekday: weekdayComponent?.value ?? null,
+    weekdayText: weekdayComponent?.text ?? null,
+    components,
+    unparsed,
+  };
+}
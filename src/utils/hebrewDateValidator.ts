@@ -3,9 +3,27 @@
  * Cross-validates Hebrew and Gregorian dates using @hebcal/core
  */
 
-import { HDate, months } from '@hebcal/core';
-import type { DateValidationResult, HebrewDateInfo, GregorianDateInfo } from '../types/proofreader';
-import { parseHebrewDate, extractGregorianYears } from './hebrewTextUtils';
+import { HDate, HebrewCalendar, months } from '@hebcal/core';
+import type {
+  AgeRange,
+  AgeValidationResult,
+  DateValidationResult,
+  HebrewDateInfo,
+  GregorianDateInfo,
+  IssueSeverity,
+  MemorialEntry,
+  ProofreadingIssue,
+  TextSpan,
+} from '../types/proofreader';
+import { parseHebrewDate, findDateComponent } from './hebrewDateParser';
+import type { ParsedHebrewDate } from './hebrewDateParser';
+import {
+  extractGregorianDates,
+  getHebrewMonthName,
+  intToHebrewNumeral,
+  parseStatedAge,
+} from './hebrewTextUtils';
+import type { ParsedGregorianDate } from './hebrewTextUtils';
 
 // Map our month numbers to hebcal month constants
 const MONTH_TO_HEBCAL: Record<number, number> = {
@@ -36,6 +54,10 @@ export function hebrewToGregorian(
     const hebcalMonth = MONTH_TO_HEBCAL[month];
     if (!hebcalMonth) return null;
 
+    // Reject impossible dates instead of letting hebcal roll them over
+    if (hebcalMonth === months.ADAR_II && !isHebrewLeapYear(year)) return null;
+    if (day < 1 || day > HDate.daysInMonth(hebcalMonth, year)) return null;
+
     const hdate = new HDate(day, hebcalMonth, year);
     return hdate.greg();
   } catch (error) {
@@ -67,101 +89,647 @@ export function gregorianToHebrew(date: Date): {
   }
 }
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a Gregorian date the way it is engraved (d.m.yyyy)
+ */
+function formatGregorianDate(date: Date): string {
+  return `${date.getDate()}.${date.getMonth() + 1}.${date.getFullYear()}`;
+}
+
+/**
+ * Format a Hebrew year in Hebrew numerals without the thousands (תשע"ט)
+ */
+function formatHebrewYear(year: number): string {
+  return intToHebrewNumeral(year % 1000);
+}
+
+/**
+ * Month name as it should be written in a given year (Adar is "אדר א'" in leap years)
+ */
+function getMonthNameForYear(month: number, year: number): string | null {
+  return month === 12 && isHebrewLeapYear(year)
+    ? "אדר א'"
+    : getHebrewMonthName(month);
+}
+
+/**
+ * Format Hebrew date components as engraved (י"א סיון תשע"ט)
+ */
+export function formatHebrewDateParts(day: number, month: number, year: number): string {
+  return `${intToHebrewNumeral(day)} ${getMonthNameForYear(month, year)} ${formatHebrewYear(year)}`;
+}
+
+/**
+ * Check that day/month/year form a real Gregorian date
+ */
+export function isValidGregorianDate(day: number, month: number, year: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * Whole days between two local dates (positive when `a` is later)
+ */
+function daysBetween(a: Date, b: Date): number {
+  return Math.round((a.getTime() - b.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Shift a date by whole days
+ */
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Gregorian date on which a Hebrew day was recorded.
+ * After-sunset phrases ("אור ל", "ליל", "מוצאי") refer to the evening before.
+ */
+function hebrewDayToGregorian(
+  day: number,
+  month: number,
+  year: number,
+  afterSunset: boolean
+): Date | null {
+  const date = hebrewToGregorian(day, month, year);
+  return date && afterSunset ? addDays(date, -1) : date;
+}
+
+/**
+ * Gregorian years covered by a Hebrew year, or by one month of it when known
+ */
+function getGregorianYearSpan(hebrewYear: number, month: number | null): [number, number] | null {
+  try {
+    const hebcalMonth = month ? MONTH_TO_HEBCAL[month] : null;
+    const first = hebcalMonth
+      ? new HDate(1, hebcalMonth, hebrewYear)
+      : new HDate(1, months.TISHREI, hebrewYear);
+    const last = hebcalMonth
+      ? new HDate(HDate.daysInMonth(hebcalMonth, hebrewYear), hebcalMonth, hebrewYear)
+      : new HDate(29, months.ELUL, hebrewYear);
+    return [first.greg().getFullYear(), last.greg().getFullYear()];
+  } catch (error) {
+    console.error('Hebrew year span error:', error);
+    return null;
+  }
+}
+
+// A calendar problem found in a Hebrew date. The span marks the offending
+// words; the fix replaces just those words. A structural problem (no such
+// day or month) makes the date impossible; a weekday problem only shows that
+// the weekday and the date disagree, and 'date' that the date is the wrong one.
+interface CalendarProblem {
+  kind: 'structure' | 'ambiguity' | 'weekday' | 'date';
+  severity: IssueSeverity;
+  explanation: string;
+  span?: TextSpan;
+  suggestedFix?: string;
+}
+
+/**
+ * The whole date string with a problem's fix applied
+ */
+function applyCalendarFix(hebrewDateStr: string, problem: CalendarProblem): string | undefined {
+  if (problem.suggestedFix === undefined) return undefined;
+  if (!problem.span) return problem.suggestedFix;
+  return hebrewDateStr.slice(0, problem.span.start) + problem.suggestedFix + hebrewDateStr.slice(problem.span.end);
+}
+
+/**
+ * Whether the month was written as a bare "אדר" (no א'/ב')
+ */
+function isBareAdar(monthName: string | null): boolean {
+  return !!monthName && monthName.replace(/^[בל]/, '') === 'אדר';
+}
+
+// Weekday display names (0 = Sunday)
+const WEEKDAY_NAMES = ['ראשון', 'שני', 'שלישי', 'רביעי', 'חמישי', 'שישי', 'שבת'];
+
+/**
+ * Write a weekday in the same style as the stated one (letter or name)
+ */
+function formatWeekdayLike(weekday: number, statedText: string): string {
+  if (weekday === 6) return 'שבת';
+  return /^[א-ו]['׳]$/.test(statedText) ? intToHebrewNumeral(weekday + 1) : WEEKDAY_NAMES[weekday];
+}
+
+// A Hebrew day as day, month and year
+type HebrewDay = { day: number; month: number; year: number };
+
+/**
+ * The Hebrew day a full stated Gregorian death date falls on (the day after
+ * it when the death was after sunset); null without a valid full date
+ */
+function statedGregorianAsHebrew(parsed: ParsedHebrewDate, gregorianYearStr: string): HebrewDay | null {
+  const { deathDate } = extractGregorianDates(gregorianYearStr);
+  if (!deathDate || deathDate.day === null || deathDate.month === null
+    || !isValidGregorianDate(deathDate.day, deathDate.month, deathDate.year)) {
+    return null;
+  }
+  const stated = new Date(deathDate.year, deathDate.month - 1, deathDate.day);
+  return gregorianToHebrew(parsed.afterSunset ? addDays(stated, 1) : stated);
+}
+
+/**
+ * Find impossible or ambiguous Hebrew dates: a 30th day in a 29-day month,
+ * Adar I/II in a non-leap year, a bare Adar in a leap year, and a stated
+ * weekday that does not match the date. When the stated Gregorian date falls
+ * on another Hebrew day whose weekday is the stated one, the Hebrew date is
+ * reported instead of the weekday.
+ */
+function findCalendarProblems(parsed: ParsedHebrewDate, statedGregorian: HebrewDay | null = null): CalendarProblem[] {
+  const { day, month, monthName, year } = parsed;
+  if (!month || !year) return [];
+
+  const dayComponent = findDateComponent(parsed, 'day');
+  const monthComponent = findDateComponent(parsed, 'month');
+  const yearComponent = findDateComponent(parsed, 'year');
+  const weekdayComponent = findDateComponent(parsed, 'weekday');
+
+  const problems: CalendarProblem[] = [];
+  const leapYear = isHebrewLeapYear(year);
+  const yearText = formatHebrewYear(year);
+
+  if ((month === 13 || (month === 12 && !isBareAdar(monthName))) && !leapYear) {
+    problems.push({
+      kind: 'structure',
+      severity: 'error',
+      explanation: `שנת ${yearText} אינה שנה מעוברת ואין בה "${monthName}" - יש לכתוב "אדר"`,
+      span: monthComponent ?? undefined,
+      suggestedFix: monthComponent ? `${monthComponent.text.match(/^[בל]?/)![0]}אדר` : undefined,
+    });
+    return problems;
+  }
+
+  if (month === 12 && isBareAdar(monthName) && leapYear) {
+    problems.push({
+      kind: 'ambiguity',
+      severity: 'warning',
+      explanation: `שנת ${yearText} היא שנה מעוברת - "אדר" לבדו אינו חד-משמעי, יש לציין "אדר א'" או "אדר ב'"`,
+      span: monthComponent ?? undefined,
+    });
+  }
+
+  if (day) {
+    const hebcalMonth = MONTH_TO_HEBCAL[month];
+    const daysInMonth = HDate.daysInMonth(hebcalMonth, year);
+    if (day > daysInMonth) {
+      const name = getMonthNameForYear(month, year);
+      const following = new HDate(daysInMonth, hebcalMonth, year).next();
+      const followingText = formatHebrewDateParts(following.getDate(), following.getMonth(), following.getFullYear());
+
+      // Replace the day and month, and the year too when the following day is in the next year
+      const sameYear = following.getFullYear() === year;
+      const last = sameYear || !yearComponent ? monthComponent : yearComponent;
+      const span = dayComponent && last ? { start: dayComponent.start, end: last.end } : undefined;
+      const fixText = sameYear && span
+        ? `${intToHebrewNumeral(following.getDate())} ${getMonthNameForYear(following.getMonth(), year)}`
+        : followingText;
+      // Cheshvan, Kislev and Adar vary in length from year to year
+      const lengthText = month === 8 || month === 9 || month === 12
+        ? `בשנת ${yearText} חודש ${name} חסר ויש בו ${daysInMonth} ימים בלבד`
+        : `בחודש ${name} יש תמיד ${daysInMonth} ימים בלבד`;
+      problems.push({
+        kind: 'structure',
+        severity: 'error',
+        explanation: `${lengthText} - התאריך ${intToHebrewNumeral(day)} ${name} אינו קיים. היום שאחרי ${intToHebrewNumeral(daysInMonth)} ${name} הוא ${followingText}`,
+        span,
+        suggestedFix: fixText,
+      });
+      return problems;
+    }
+
+    // The stated weekday names the Hebrew day; after-sunset phrases were already
+    // resolved by the parser, so compare with the Hebrew day itself
+    if (parsed.weekday !== null && parsed.weekdayText) {
+      const actual = new HDate(day, hebcalMonth, year).getDay();
+      if (actual !== parsed.weekday) {
+        const dateText = formatHebrewDateParts(day, month, year);
+        let explanation = `${dateText} חל ביום ${WEEKDAY_NAMES[actual]} ולא ביום ${WEEKDAY_NAMES[parsed.weekday]}`;
+        if (parsed.afterSunset && (parsed.weekday + 1) % 7 === actual) {
+          explanation += `. נראה שנכתב היום בשבוע של הערב הלועזי - לאחר "${parsed.sunsetPhrase}" יש לציין את היום העברי, שמתחיל בשקיעה`;
+        }
+        // The Gregorian date agrees with the weekday, so the Hebrew date is the odd one out
+        const gregorianDay = statedGregorian
+          && new HDate(statedGregorian.day, MONTH_TO_HEBCAL[statedGregorian.month], statedGregorian.year);
+        if (gregorianDay && gregorianDay.getDay() === parsed.weekday) {
+          const statedText = formatHebrewDateParts(statedGregorian.day, statedGregorian.month, statedGregorian.year);
+          const end = (yearComponent ?? monthComponent)?.end;
+          problems.push({
+            kind: 'date',
+            severity: 'error',
+            explanation: `${dateText} חל ביום ${WEEKDAY_NAMES[actual]}, אבל התאריך הלועזי הוא ${statedText} שחל ביום ${WEEKDAY_NAMES[parsed.weekday]} כפי שנכתב - `
+              + 'כנראה התאריך העברי שגוי ולא היום בשבוע',
+            span: dayComponent && end !== undefined ? { start: dayComponent.start, end } : undefined,
+            suggestedFix: yearComponent
+              ? statedText
+              : `${intToHebrewNumeral(statedGregorian.day)} ${getMonthNameForYear(statedGregorian.month, statedGregorian.year)}`,
+          });
+          return problems;
+        }
+
+        // Shabbat and "מוצאי" phrases are reworded, not swapped, so no fix is offered
+        const replaceable = parsed.weekday !== 6 && actual !== 6 && !parsed.sunsetPhrase?.includes('מוצ');
+        problems.push({
+          kind: 'weekday',
+          severity: 'error',
+          explanation,
+          span: weekdayComponent ?? undefined,
+          suggestedFix: replaceable ? formatWeekdayLike(actual, parsed.weekdayText) : undefined,
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Check a Hebrew date against the calendar and report impossible or
+ * ambiguous dates as date_mismatch issues. With the stated Gregorian date, a
+ * weekday that matches it points at the Hebrew date rather than the weekday.
+ */
+export function validateHebrewCalendarDate(
+  hebrewDateStr: string,
+  section?: string,
+  gregorianYearStr = ''
+): ProofreadingIssue[] {
+  const parsed = parseHebrewDate(hebrewDateStr);
+  return findCalendarProblems(parsed, statedGregorianAsHebrew(parsed, gregorianYearStr)).map((problem, index) => ({
+    id: `calendar-${Date.now()}-${index}`,
+    category: 'date_mismatch',
+    severity: problem.severity,
+    originalText: problem.span
+      ? hebrewDateStr.slice(problem.span.start, problem.span.end)
+      : hebrewDateStr,
+    suggestedFix: problem.suggestedFix,
+    explanation: problem.explanation,
+    location: {
+      section,
+      context: hebrewDateStr,
+      span: problem.span && { start: problem.span.start, end: problem.span.end },
+    },
+  }));
+}
+
 /**
- * Validate that Hebrew and Gregorian dates are consistent
+ * Validate that Hebrew and Gregorian dates are consistent. The weekday is
+ * judged only after the dates are compared: a wrong weekday on matching dates
+ * is the weekday's fault, one that matches the Gregorian date the Hebrew date's.
  */
 export function validateDateConsistency(
   hebrewDateStr: string,
   gregorianYearStr: string
 ): DateValidationResult {
-  // Parse the Hebrew date
   const parsedHebrew = parseHebrewDate(hebrewDateStr);
+  const result = compareDeathDates(parsedHebrew, hebrewDateStr, gregorianYearStr);
+
+  const weekdayProblem = findCalendarProblems(parsedHebrew, statedGregorianAsHebrew(parsedHebrew, gregorianYearStr))
+    .find((problem) => problem.kind === 'weekday' || problem.kind === 'date');
+  if (!weekdayProblem) return result;
+
+  if (result.isConsistent) {
+    return {
+      ...result,
+      isConsistent: false,
+      expectedHebrewDate: applyCalendarFix(hebrewDateStr, weekdayProblem),
+      discrepancyExplanation: weekdayProblem.explanation,
+    };
+  }
+  return {
+    ...result,
+    discrepancyExplanation: [result.discrepancyExplanation, weekdayProblem.explanation].filter(Boolean).join('. '),
+  };
+}
+
+/**
+ * Compare a Hebrew death date with the Gregorian one, leaving the weekday aside
+ */
+function compareDeathDates(
+  parsedHebrew: ParsedHebrewDate,
+  hebrewDateStr: string,
+  gregorianYearStr: string
+): DateValidationResult {
   const hebrewDateInfo: HebrewDateInfo = {
     day: parsedHebrew.day ?? undefined,
     month: parsedHebrew.monthName ?? undefined,
     monthNumeric: parsedHebrew.month ?? undefined,
     year: parsedHebrew.year ?? undefined,
+    afterSunset: parsedHebrew.afterSunset || undefined,
+    sunsetPhrase: parsedHebrew.sunsetPhrase ?? undefined,
+    specialDay: parsedHebrew.specialDay ?? undefined,
+    weekday: parsedHebrew.weekday ?? undefined,
+    weekdayText: parsedHebrew.weekdayText ?? undefined,
+    components: parsedHebrew.components,
+    unparsed: parsedHebrew.unparsed.length > 0 ? parsedHebrew.unparsed : undefined,
     rawText: hebrewDateStr,
   };
 
-  // Parse Gregorian years
-  const { deathYear } = extractGregorianYears(gregorianYearStr);
+  // Parse the Gregorian death date (full date when available, otherwise year only)
+  const { deathDate } = extractGregorianDates(gregorianYearStr);
   const gregorianDateInfo: GregorianDateInfo = {
-    year: deathYear ?? undefined,
+    day: deathDate?.day ?? undefined,
+    month: deathDate?.month ?? undefined,
+    year: deathDate?.year ?? undefined,
     rawText: gregorianYearStr,
   };
 
+  const base = { hebrewDate: hebrewDateInfo, gregorianDate: gregorianDateInfo };
+
   // If we don't have enough info, return inconclusive
-  if (!parsedHebrew.year || !deathYear) {
+  if (!parsedHebrew.year || !deathDate) {
     return {
-      hebrewDate: hebrewDateInfo,
-      gregorianDate: gregorianDateInfo,
+      ...base,
       isConsistent: true, // Can't determine, assume OK
-      discrepancyExplanation: parsedHebrew.year && !deathYear
+      discrepancyExplanation: parsedHebrew.year && !deathDate
         ? 'לא נמצאה שנה גרגוריאנית להשוואה'
-        : !parsedHebrew.year && deathYear
+        : !parsedHebrew.year && deathDate
           ? 'לא נמצאה שנה עברית להשוואה'
           : undefined,
     };
   }
 
-  // Convert Hebrew date to Gregorian for comparison
-  // Use day 15 (middle of month) if day is unknown for year comparison
-  const dayToUse = parsedHebrew.day || 15;
-  const monthToUse = parsedHebrew.month || 7; // Default to Tishrei
+  const hebrewYear = parsedHebrew.year;
 
-  const convertedDate = hebrewToGregorian(dayToUse, monthToUse, parsedHebrew.year);
+  // An impossible Hebrew date cannot be compared
+  const calendarErrors = findCalendarProblems(parsedHebrew)
+    .filter((problem) => problem.kind === 'structure');
+  if (calendarErrors.length > 0) {
+    return {
+      ...base,
+      isConsistent: false,
+      expectedHebrewDate: applyCalendarFix(hebrewDateStr, calendarErrors[0]),
+      discrepancyExplanation: calendarErrors.map((problem) => problem.explanation).join('. '),
+    };
+  }
 
-  if (!convertedDate) {
+  // A stated Gregorian date must exist before it can be compared
+  if (deathDate.day !== null && deathDate.month !== null
+    && !isValidGregorianDate(deathDate.day, deathDate.month, deathDate.year)) {
+    const swappedIsValid = isValidGregorianDate(deathDate.month, deathDate.day, deathDate.year);
     return {
-      hebrewDate: hebrewDateInfo,
-      gregorianDate: gregorianDateInfo,
-      isConsistent: true,
-      discrepancyExplanation: 'לא ניתן להמיר את התאריך העברי',
+      ...base,
+      isConsistent: false,
+      discrepancyExplanation: swappedIsValid
+        ? `התאריך הלועזי ${deathDate.day}.${deathDate.month}.${deathDate.year} אינו קיים - נראה שהיום והחודש הוחלפו (${deathDate.month}.${deathDate.day}.${deathDate.year})`
+        : `התאריך הלועזי ${deathDate.day}.${deathDate.month}.${deathDate.year} אינו קיים`,
     };
   }
 
-  const convertedYear = convertedDate.getFullYear();
+  const statedGregorian = deathDate.day !== null && deathDate.month !== null
+    ? new Date(deathDate.year, deathDate.month - 1, deathDate.day)
+    : null;
+
+  // The Hebrew day that a stated Gregorian date falls on (its evening when after sunset)
+  const { afterSunset } = parsedHebrew;
+  const statedAsHebrew = statedGregorian
+    ? gregorianToHebrew(afterSunset ? addDays(statedGregorian, 1) : statedGregorian)
+    : null;
+  const sunsetNote = afterSunset
+    ? `"${parsedHebrew.sunsetPhrase}" - הפטירה הייתה לאחר השקיעה, ולכן התאריך הלועזי הוא היום שלפני התאריך העברי`
+    : undefined;
+
+  // Full Hebrew date: convert the exact day through HDate
+  if (parsedHebrew.day && parsedHebrew.month) {
+    const convertedDate = hebrewDayToGregorian(parsedHebrew.day, parsedHebrew.month, hebrewYear, afterSunset);
+
+    if (!convertedDate) {
+      return {
+        ...base,
+        isConsistent: true,
+        discrepancyExplanation: 'לא ניתן להמיר את התאריך העברי',
+      };
+    }
+
+    const expectedGregorianDate = formatGregorianDate(convertedDate);
+
+    if (statedGregorian) {
+      const dayDiff = daysBetween(statedGregorian, convertedDate);
+      if (dayDiff === 0) {
+        return { ...base, isConsistent: true, discrepancyExplanation: sunsetNote };
+      }
+
+      // A bare "אדר" in a leap year may mean Adar II
+      if (parsedHebrew.month === 12 && isBareAdar(parsedHebrew.monthName) && isHebrewLeapYear(hebrewYear)) {
+        const adarII = hebrewDayToGregorian(parsedHebrew.day, 13, hebrewYear, afterSunset);
+        if (adarII && daysBetween(statedGregorian, adarII) === 0) {
+          return {
+            ...base,
+            isConsistent: true,
+            discrepancyExplanation: `התאריך הלועזי מתאים ל${formatHebrewDateParts(parsedHebrew.day, 13, hebrewYear)} - מומלץ לכתוב "אדר ב'" במפורש`,
+          };
+        }
+      }
 
-  // Check if years match (allow ±1 year for Hebrew year boundary differences)
-  const yearDiff = Math.abs(convertedYear - deathYear);
-  const isConsistent = yearDiff <= 1;
+      const statedText = formatGregorianDate(statedGregorian);
+      const swapped = new Date(deathDate.year, deathDate.day! - 1, deathDate.month!);
+      const isSwapped = isValidGregorianDate(deathDate.month!, deathDate.day!, deathDate.year)
+        && daysBetween(swapped, convertedDate) === 0;
+
+      let discrepancyExplanation: string;
+      if (isSwapped) {
+        discrepancyExplanation = `נראה שהיום והחודש בתאריך הלועזי הוחלפו: ${hebrewDateStr} הוא ${expectedGregorianDate} ולא ${statedText}`;
+      } else if (dayDiff === -1 && !afterSunset) {
+        discrepancyExplanation = `הפרש של יום אחד: ${hebrewDateStr} הוא ${expectedGregorianDate} ולא ${statedText}. אם הפטירה הייתה לאחר השקיעה יש לציין "אור ל" לפני התאריך העברי`;
+      } else if (Math.abs(dayDiff) === 1) {
+        discrepancyExplanation = `הפרש של יום אחד: ${hebrewDateStr} הוא ${expectedGregorianDate} ולא ${statedText}`;
+      } else {
+        discrepancyExplanation = `התאריך העברי ${hebrewDateStr} מתאים ל-${expectedGregorianDate} ולא ל-${statedText}`;
+      }
+      if (sunsetNote) {
+        discrepancyExplanation += ` (${sunsetNote})`;
+      }
+
+      return {
+        ...base,
+        isConsistent: false,
+        expectedGregorianDate,
+        expectedHebrewDate: statedAsHebrew
+          ? formatHebrewDateParts(statedAsHebrew.day, statedAsHebrew.month, statedAsHebrew.year)
+          : undefined,
+        discrepancyExplanation,
+      };
+    }
+
+    // Only a Gregorian year is stated: the converted year must match exactly
+    const convertedYear = convertedDate.getFullYear();
+    if (convertedYear === deathDate.year) {
+      return { ...base, isConsistent: true, discrepancyExplanation: sunsetNote };
+    }
+
+    // Find the Hebrew year in which this day falls in the stated Gregorian year
+    const candidateYear = [deathDate.year + 3760, deathDate.year + 3761].find(
+      (y) => hebrewDayToGregorian(parsedHebrew.day!, parsedHebrew.month!, y, afterSunset)?.getFullYear() === deathDate.year
+    );
 
-  if (isConsistent) {
     return {
-      hebrewDate: hebrewDateInfo,
-      gregorianDate: gregorianDateInfo,
-      isConsistent: true,
+      ...base,
+      isConsistent: false,
+      expectedGregorianDate,
+      expectedHebrewDate: candidateYear
+        ? formatHebrewDateParts(parsedHebrew.day, parsedHebrew.month, candidateYear)
+        : undefined,
+      discrepancyExplanation: `התאריך העברי ${hebrewDateStr} מתאים לשנה ${convertedYear} ולא ל-${deathDate.year}`,
     };
   }
 
-  // Calculate what the correct dates should be
-  const expectedGregorianDate = `${convertedDate.getDate()}/${convertedDate.getMonth() + 1}/${convertedYear}`;
+  // Partial Hebrew date with a full Gregorian date: compare year (and month if known)
+  if (statedGregorian) {
+    if (!statedAsHebrew) {
+      return {
+        ...base,
+        isConsistent: true,
+        discrepancyExplanation: 'לא ניתן להמיר את התאריך הלועזי',
+      };
+    }
+
+    const yearMatches = statedAsHebrew.year === hebrewYear;
+    const monthMatches = !parsedHebrew.month || statedAsHebrew.month === parsedHebrew.month;
+    if (yearMatches && monthMatches) {
+      return { ...base, isConsistent: true };
+    }
 
-  // Calculate expected Hebrew date from Gregorian
-  const gregorianAsDate = new Date(deathYear, 0, 1); // Jan 1 of death year
-  const expectedHebrew = gregorianToHebrew(gregorianAsDate);
-  const expectedHebrewYear = expectedHebrew ? `ה'תש${getHebrewYearSuffix(expectedHebrew.year)}` : undefined;
+    const expectedHebrewDate = formatHebrewDateParts(statedAsHebrew.day, statedAsHebrew.month, statedAsHebrew.year);
+    return {
+      ...base,
+      isConsistent: false,
+      expectedHebrewDate,
+      discrepancyExplanation: `התאריך הלועזי ${formatGregorianDate(statedGregorian)} הוא ${expectedHebrewDate} ואינו מתאים ל-${hebrewDateStr}`,
+    };
+  }
 
+  // Years only: the Gregorian year must overlap the Hebrew year (or month)
+  const span = getGregorianYearSpan(hebrewYear, parsedHebrew.month);
+  if (!span) {
+    return {
+      ...base,
+      isConsistent: true,
+      discrepancyExplanation: 'לא ניתן להמיר את התאריך העברי',
+    };
+  }
+
+  const [firstYear, lastYear] = span;
+  if (deathDate.year >= firstYear && deathDate.year <= lastYear) {
+    return { ...base, isConsistent: true };
+  }
+
+  const spanText = firstYear === lastYear ? `${firstYear}` : `${firstYear}-${lastYear}`;
   return {
-    hebrewDate: hebrewDateInfo,
-    gregorianDate: gregorianDateInfo,
+    ...base,
     isConsistent: false,
-    expectedGregorianDate,
-    expectedHebrewDate: expectedHebrewYear,
-    discrepancyExplanation: `התאריך העברי ${hebrewDateStr} מתאים לשנה ${convertedYear} ולא ל-${deathYear}`,
+    expectedGregorianDate: spanText,
+    expectedHebrewDate: `${formatHebrewYear(deathDate.year + 3760)} או ${formatHebrewYear(deathDate.year + 3761)}`,
+    discrepancyExplanation: `התאריך העברי ${hebrewDateStr} מתאים לשנה ${spanText} ולא ל-${deathDate.year}`,
   };
 }
 
 /**
- * Get Hebrew year suffix for display
- * Converts 5785 to פ"ה
+ * Age at death from Gregorian birth and death dates
  */
-function getHebrewYearSuffix(year: number): string {
-  // This is a simplified version - just shows the last two digits concept
-  const lastTwo = year % 100;
-  // For accurate Hebrew numeral conversion, we'd need more complex logic
-  return `"${lastTwo}`;
+function computeGregorianAge(birth: ParsedGregorianDate, death: ParsedGregorianDate): AgeRange {
+  const years = death.year - birth.year;
+
+  if (birth.day !== null && birth.month !== null && death.day !== null && death.month !== null) {
+    const beforeBirthday = death.month < birth.month
+      || (death.month === birth.month && death.day < birth.day);
+    const age = beforeBirthday ? years - 1 : years;
+    return { min: age, max: age };
+  }
+
+  return { min: Math.max(years - 1, 0), max: years };
+}
+
+/**
+ * Age at death from Hebrew birth and death dates, using hebcal's birthday rules
+ * (Adar in leap years, 30 Cheshvan/Kislev)
+ */
+function computeHebrewAge(
+  birth: ParsedHebrewDate,
+  death: ParsedHebrewDate
+): AgeRange | null {
+  if (!birth.year || !death.year) return null;
+
+  const years = death.year - birth.year;
+
+  if (birth.day && birth.month && death.day && death.month
+    && hebrewToGregorian(birth.day, birth.month, birth.year)
+    && hebrewToGregorian(death.day, death.month, death.year)) {
+    const birthDate = new HDate(birth.day, MONTH_TO_HEBCAL[birth.month], birth.year);
+    const deathDate = new HDate(death.day, MONTH_TO_HEBCAL[death.month], death.year);
+    const birthday = HebrewCalendar.getBirthdayOrAnniversary(death.year, birthDate);
+    const age = birthday && deathDate.abs() < birthday.abs() ? years - 1 : years;
+    return { min: age, max: age };
+  }
+
+  return { min: Math.max(years - 1, 0), max: years };
+}
+
+/**
+ * Format an age range for display
+ */
+function formatAgeRange(range: AgeRange): string {
+  return range.min === range.max ? `${range.min}` : `${range.min}-${range.max}`;
+}
+
+/**
+ * Validate birth dates and stated age against the death dates in both calendars
+ */
+export function validateAgeConsistency(memorial: MemorialEntry): AgeValidationResult | null {
+  const statedAge = parseStatedAge(memorial.statedAge || '');
+  const { birthDate, deathDate } = extractGregorianDates(memorial.gregorianYears || '');
+  const hebrewBirth = parseHebrewDate(memorial.hebrewBirthDate || '');
+  const hebrewDeath = parseHebrewDate(memorial.hebrewDeathDate || '');
+
+  if (statedAge === null && !birthDate && !hebrewBirth.year) {
+    return null;
+  }
+
+  const gregorianAge = birthDate && deathDate ? computeGregorianAge(birthDate, deathDate) : null;
+  const hebrewAge = computeHebrewAge(hebrewBirth, hebrewDeath);
+  const problems: string[] = [];
+
+  if (gregorianAge && gregorianAge.max < 0) {
+    problems.push(`שנת הלידה ${birthDate!.year} מאוחרת משנת הפטירה ${deathDate!.year}`);
+  }
+  if (hebrewAge && hebrewAge.max < 0) {
+    problems.push(`שנת הלידה העברית ${formatHebrewYear(hebrewBirth.year!)} מאוחרת משנת הפטירה ${formatHebrewYear(hebrewDeath.year!)}`);
+  }
+
+  // Hebrew and Gregorian birth dates must describe the same day
+  let birthValidation: DateValidationResult | undefined;
+  if (memorial.hebrewBirthDate && birthDate) {
+    const birthText = birthDate.day !== null && birthDate.month !== null
+      ? `${birthDate.day}.${birthDate.month}.${birthDate.year}`
+      : `${birthDate.year}`;
+    birthValidation = validateDateConsistency(memorial.hebrewBirthDate, birthText);
+    if (!birthValidation.isConsistent && birthValidation.discrepancyExplanation) {
+      problems.push(`תאריך הלידה: ${birthValidation.discrepancyExplanation}`);
+    }
+  }
+
+  // The stated age must fit the dates in at least one calendar
+  if (statedAge !== null && (gregorianAge || hebrewAge)) {
+    const fits = (range: AgeRange | null) => !!range && statedAge >= range.min && statedAge <= range.max;
+    if (!fits(gregorianAge) && !fits(hebrewAge)) {
+      const computed = [
+        gregorianAge && `לפי הלוח הלועזי ${formatAgeRange(gregorianAge)}`,
+        hebrewAge && `לפי הלוח העברי ${formatAgeRange(hebrewAge)}`,
+      ].filter(Boolean).join(', ');
+      problems.push(`הגיל הנקוב (${statedAge}) אינו תואם לתאריכים: ${computed}`);
+    }
+  }
+
+  return {
+    statedAge: statedAge ?? undefined,
+    gregorianAge: gregorianAge ?? undefined,
+    hebrewAge: hebrewAge ?? undefined,
+    birthDate: birthValidation,
+    isConsistent: problems.length === 0,
+    discrepancyExplanation: problems.length > 0 ? problems.join('. ') : undefined,
+  };
 }
 
 /**
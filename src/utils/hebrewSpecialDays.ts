@@ -0,0 +1,164 @@
+/**
+ * Hebrew Special-Day Phrases
+ * Resolves expressions such as "ערב יום הכיפורים", "ראש חודש אלול" or
+ * "ב' דחול המועד סוכות" to a concrete Hebrew day and month using @hebcal/core
+ */
+
+import { HebrewCalendar } from '@hebcal/core';
+import { normalizeQuotes } from './hebrewTextUtils';
+
+// Ordinal letters used in "א' דראש חודש", "ג' דחנוכה"
+const ORDINALS: Record<string, number> = {
+  'א': 1, 'ב': 2, 'ג': 3, 'ד': 4, 'ה': 5, 'ו': 6, 'ז': 7, 'ח': 8,
+};
+
+// Hebrew month names as they follow "ראש חודש", mapped to hebcal month names
+const ROSH_CHODESH_MONTHS: Record<string, string> = {
+  'ניסן': 'Nisan',
+  'אייר': 'Iyyar',
+  'סיון': 'Sivan', 'סיוון': 'Sivan',
+  'תמוז': 'Tamuz',
+  'אב': 'Av', 'מנחם אב': 'Av', 'מנ"א': 'Av',
+  'אלול': 'Elul',
+  'חשון': 'Cheshvan', 'חשוון': 'Cheshvan', 'מרחשון': 'Cheshvan', 'מר חשון': 'Cheshvan',
+  'כסלו': 'Kislev', 'כסליו': 'Kislev',
+  'טבת': 'Tevet',
+  'שבט': "Sh'vat",
+  'אדר': 'Adar',
+  "אדר א'": 'Adar I', 'אדר א': 'Adar I', 'אדר ראשון': 'Adar I',
+  "אדר ב'": 'Adar II', 'אדר ב': 'Adar II', 'אדר שני': 'Adar II',
+};
+
+// A phrase and the hebcal holiday (matched on its English description) it names
+interface SpecialDayRule {
+  pattern: RegExp;
+  holiday: RegExp | ((match: RegExpMatchArray) => RegExp | null);
+  // 1-based occurrence among matching days; negative counts from the end
+  occurrence?: (match: RegExpMatchArray) => number;
+}
+
+const ordinal = (group: number, offset = 0) =>
+  (match: RegExpMatchArray) => (ORDINALS[match[group]] ?? 1) + offset;
+
+// Patterns run on quote-normalized text; more specific phrases come first
+const SPECIAL_DAY_RULES: SpecialDayRule[] = [
+  { pattern: /ערב\s+יום\s+ה?כיפורים|ערב\s+יום\s+כיפור|ערב\s+יוה"כ|עיוה"כ/, holiday: /^Erev Yom Kippur$/ },
+  { pattern: /יום\s+ה?כיפורים|יום\s+כיפור|יוה"כ/, holiday: /^Yom Kippur$/ },
+  { pattern: /ערב\s+ראש\s+השנה|ערב\s+ר"ה/, holiday: /^Erev Rosh Hashana$/ },
+  { pattern: /ב'\s*ד?ראש\s+השנה|ב'\s*ד?ר"ה/, holiday: /^Rosh Hashana II$/ },
+  { pattern: /(?:א'\s*ד?)?ראש\s+השנה/, holiday: /^Rosh Hashana \d+$/ },
+  { pattern: /ערב\s+(?:חג\s+)?ה?סוכות/, holiday: /^Erev Sukkot$/ },
+  { pattern: /הושענא\s+רבה/, holiday: /^Sukkot VII/ },
+  {
+    pattern: /([א-ו])'\s*ד?(?:חול\s+המועד|חוה"מ)\s+סוכות/,
+    holiday: /^Sukkot (?:II|III|IV|V|VI|VII)\b/,
+    occurrence: ordinal(1),
+  },
+  { pattern: /שמיני\s+עצרת|שמחת\s+תורה/, holiday: /^Shmini Atzeret$/ },
+  { pattern: /(?:א'\s*ד?)?(?:חג\s+ה?)?סוכות/, holiday: /^Sukkot I$/ },
+  { pattern: /ערב\s+(?:חג\s+ה?)?פסח/, holiday: /^Erev Pesach$/ },
+  { pattern: /שביעי\s+של\s+פסח/, holiday: /^Pesach VII$/ },
+  {
+    pattern: /([א-ה])'\s*ד?(?:חול\s+המועד|חוה"מ)\s+פסח/,
+    holiday: /^Pesach (?:II|III|IV|V|VI) \(CH''M\)$/,
+    occurrence: ordinal(1),
+  },
+  { pattern: /פסח\s+שני/, holiday: /^Pesach Sheni$/ },
+  { pattern: /(?:א'\s*ד?)?(?:חג\s+ה?)?פסח/, holiday: /^Pesach I$/ },
+  { pattern: /ערב\s+(?:חג\s+ה?)?שבועות/, holiday: /^Erev Shavuot$/ },
+  { pattern: /(?:חג\s+ה?)?שבועות/, holiday: /^Shavuot$/ },
+  { pattern: /ל"ג\s+[בל]עומר/, holiday: /^Lag BaOmer$/ },
+  { pattern: /תענית\s+אסתר/, holiday: /^Ta'anit Esther$/ },
+  { pattern: /ערב\s+פורים/, holiday: /^Erev Purim$/ },
+  { pattern: /שושן\s+פורים\s+קטן/, holiday: /^Shushan Purim Katan$/ },
+  { pattern: /שושן\s+פורים/, holiday: /^Shushan Purim$/ },
+  { pattern: /פורים\s+קטן/, holiday: /^Purim Katan$/ },
+  { pattern: /פורים/, holiday: /^Purim$/ },
+  {
+    // Day 1 of Chanukah is the "2 Candles" day; the list starts with the first candle
+    pattern: /([א-ח])'\s*ד?חנוכה/,
+    holiday: /^Chanukah: (?:\d Candles?|8th Day)$/,
+    occurrence: ordinal(1, 1),
+  },
+  { pattern: /ערב\s+תשעה\s+באב|ערב\s+ת"ב/, holiday: /^Erev Tish'a B'Av$/ },
+  { pattern: /תשעה\s+באב|ת"ב/, holiday: /^Tish'a B'Av$/ },
+  { pattern: /יום\s+השואה/, holiday: /^Yom HaShoah$/ },
+  { pattern: /יום\s+הזי?כרון(?!\s+ל)/, holiday: /^Yom HaZikaron$/ },
+  { pattern: /יום\s+העצמאות/, holiday: /^Yom HaAtzma'ut$/ },
+  { pattern: /יום\s+ירושלים/, holiday: /^Yom Yerushalayim$/ },
+  {
+    // Two-day Rosh Chodesh: "א' דר"ח" is the 30th of the previous month,
+    // an unqualified "ראש חודש" is taken as the 1st of the month
+    pattern: /(?:([אב])'\s*ד?)?(?:ראש\s+חודש|ר"ח)\s+(אדר\s+(?:א'?|ב'?|ראשון|שני)(?=\s|$)|מנחם\s+אב|מר\s+חשון|[א-ת"]+)/,
+    holiday: (match) => {
+      const month = ROSH_CHODESH_MONTHS[match[2]];
+      return month ? new RegExp(`^Rosh Chodesh ${month}$`) : null;
+    },
+    occurrence: (match) => (match[1] ? ORDINALS[match[1]] : -1),
+  },
+];
+
+/**
+ * A special-day phrase found in a date string
+ */
+export interface SpecialDayMatch {
+  phrase: string;
+  start: number;
+  end: number;
+  rule: SpecialDayRule;
+  match: RegExpMatchArray;
+}
+
+/**
+ * Find the first special-day phrase in a date string (a ב/ו/ל prefix is allowed)
+ */
+export function findSpecialDayPhrase(text: string): SpecialDayMatch | null {
+  if (!text) return null;
+
+  const normalized = normalizeQuotes(text);
+
+  for (const rule of SPECIAL_DAY_RULES) {
+    const pattern = new RegExp(`(^|\\s)[בול]?(?:${rule.pattern.source})`);
+    const match = normalized.match(pattern);
+    if (match && match.index !== undefined) {
+      const start = match.index + match[1].length;
+      const end = match.index + match[0].length;
+      // Re-run the bare rule so capture groups are numbered as written
+      const inner = normalized.slice(start, end).match(rule.pattern)!;
+      return { phrase: text.slice(start, end), start, end, rule, match: inner };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a special-day phrase to a Hebrew day and month in a given year,
+ * using hebcal's Israeli holiday calendar
+ */
+export function resolveSpecialDay(
+  special: SpecialDayMatch,
+  hebrewYear: number
+): { day: number; month: number } | null {
+  const { rule, match } = special;
+  const holiday = typeof rule.holiday === 'function' ? rule.holiday(match) : rule.holiday;
+  if (!holiday) return null;
+
+  try {
+    const days = HebrewCalendar.getHolidaysForYearArray(hebrewYear, true)
+      .filter((event) => holiday.test(event.getDesc()))
+      .map((event) => event.getDate())
+      .sort((a, b) => a.abs() - b.abs());
+
+    if (days.length === 0) return null;
+
+    const occurrence = rule.occurrence ? rule.occurrence(match) : 1;
+    const date = occurrence < 0 ? days[days.length + occurrence] : days[occurrence - 1];
+    if (!date) return null;
+
+    return { day: date.getDate(), month: date.getMonth() };
+  } catch (error) {
+    console.error('Special day resolution error:', error);
+    return null;
+  }
+}
@@ -3,6 +3,12 @@
  * Parsing and validation helpers for Hebrew memorial text
  */
 
+import type { DictionaryEntry } from '../types/proofreader';
+import defaultDictionary from '../data/memorialDictionary.json';
+
+// The built-in abbreviation dictionary, used until the shop's dictionary is loaded
+export const DEFAULT_MEMORIAL_DICTIONARY: DictionaryEntry[] = defaultDictionary;
+
 // Hebrew letter to numeric value mapping (Gematria)
 const HEBREW_LETTER_VALUES: Record<string, number> = {
   'א': 1, 'ב': 2, 'ג': 3, 'ד': 4, 'ה': 5,
@@ -30,29 +36,32 @@ export const HEBREW_MONTHS: Record<string, number> = {
   "אדר ב'": 13, 'אדר ב': 13, 'אדר שני': 13,
 };
 
-// Common memorial abbreviations
-export const MEMORIAL_ABBREVIATIONS: Record<string, string> = {
-  'פ"נ': 'פה נטמן / פה נקבר',
-  'פ״נ': 'פה נטמן / פה נקבר',
-  'הכ"מ': 'הכאן מונח',
-  'ז"ל': 'זכרונו/ה לברכה',
-  'ז״ל': 'זכרונו/ה לברכה',
-  'זצ"ל': 'זכר צדיק לברכה',
-  'זצוק"ל': 'זכר צדיק וקדוש לברכה',
-  'ע"ה': 'עליו/ה השלום',
-  'ע״ה': 'עליו/ה השלום',
-  'נ"ע': 'נוחו/ה עדן',
-  'נ״ע': 'נוחו/ה עדן',
-  'הי"ד': 'השם יקום דמו',
-  'ת.נ.צ.ב.ה': 'תהא נשמתו/ה צרורה בצרור החיים',
-  'תנצב"ה': 'תהא נשמתו/ה צרורה בצרור החיים',
-  'ב"ר': 'בן/בת רבי',
-  'בן': 'בן',
-  'בת': 'בת',
-  'נפ\'': 'נפטר/ה',
-  'נפטר': 'נפטר',
-  'נפטרה': 'נפטרה',
-};
+// Memorial abbreviations and formulas in use. Starts with the built-in list and
+// is replaced at runtime by the shop's dictionary; lookups normalize gershayim,
+// so which quote mark is correct is a house-style question.
+let memorialDictionary: DictionaryEntry[] = DEFAULT_MEMORIAL_DICTIONARY;
+
+/**
+ * Replace the abbreviation dictionary used by lookups
+ */
+export function setMemorialDictionary(entries: DictionaryEntry[]): void {
+  memorialDictionary = entries;
+}
+
+/**
+ * The abbreviation dictionary currently in use
+ */
+export function getMemorialDictionary(): DictionaryEntry[] {
+  return memorialDictionary;
+}
+
+/**
+ * Find the dictionary entry for an abbreviation or formula, in either quote style
+ */
+export function findDictionaryEntry(term: string): DictionaryEntry | null {
+  const normalized = normalizeQuotes(term.trim());
+  return memorialDictionary.find((entry) => normalizeQuotes(entry.term) === normalized) ?? null;
+}
 
 /**
  * Convert Hebrew numerals (Gematria) to integer
@@ -61,6 +70,13 @@ export const MEMORIAL_ABBREVIATIONS: Record<string, string> = {
 export function hebrewNumeralToInt(hebrewNum: string): number | null {
   if (!hebrewNum) return null;
 
+  // A letter with geresh before further letters counts thousands: ה'תשפ"ה
+  const thousandsMatch = hebrewNum.trim().match(/^([א-ט])['׳](?=[א-ת])/);
+  if (thousandsMatch) {
+    const rest = hebrewNumeralToInt(hebrewNum.trim().slice(thousandsMatch[0].length));
+    return rest === null ? null : HEBREW_LETTER_VALUES[thousandsMatch[1]] * 1000 + rest;
+  }
+
   // Clean the string: remove quotes, geresh, gershayim, apostrophes
   const cleaned = hebrewNum
     .replace(/['"״׳"'`]/g, '')
@@ -83,6 +99,71 @@ export function hebrewNumeralToInt(hebrewNum: string): number | null {
   return hasValidLetter ? total : null;
 }
 
+// Letters used when encoding numbers, largest value first
+const HEBREW_NUMERAL_LETTERS: Array<[number, string]> = [
+  [400, 'ת'], [300, 'ש'], [200, 'ר'], [100, 'ק'],
+  [90, 'צ'], [80, 'פ'], [70, 'ע'], [60, 'ס'], [50, 'נ'],
+  [40, 'מ'], [30, 'ל'], [20, 'כ'], [10, 'י'],
+  [9, 'ט'], [8, 'ח'], [7, 'ז'], [6, 'ו'], [5, 'ה'],
+  [4, 'ד'], [3, 'ג'], [2, 'ב'], [1, 'א'],
+];
+
+/**
+ * Convert an integer to Hebrew numerals (Gematria) - the inverse of hebrewNumeralToInt
+ * Examples: 11 → י"א, 15 → ט"ו, 5 → ה', 5779 → תשע"ט, 5779 with thousands → ה'תשע"ט
+ */
+export function intToHebrewNumeral(
+  num: number,
+  options: { thousands?: boolean } = {}
+): string {
+  if (!Number.isInteger(num) || num <= 0) return '';
+
+  const thousands = Math.floor(num / 1000);
+  let remainder = num % 1000;
+  let letters = '';
+
+  // 500-999 are written by stacking ת before the remaining hundreds
+  while (remainder >= 400) {
+    letters += 'ת';
+    remainder -= 400;
+  }
+
+  const hundreds = remainder - (remainder % 100);
+  if (hundreds > 0) {
+    letters += HEBREW_NUMERAL_LETTERS.find(([value]) => value === hundreds)![1];
+    remainder -= hundreds;
+  }
+
+  // 15 and 16 are written ט"ו / ט"ז to avoid spelling the Divine Name
+  if (remainder === 15 || remainder === 16) {
+    letters += remainder === 15 ? 'טו' : 'טז';
+  } else {
+    for (const [value, letter] of HEBREW_NUMERAL_LETTERS) {
+      if (value < 100 && remainder >= value) {
+        letters += letter;
+        remainder -= value;
+      }
+    }
+  }
+
+  // Year 5744 is customarily written תשד"מ rather than תשמ"ד (שמד)
+  letters = letters.replace(/שמד$/, 'שדמ');
+
+  let result = '';
+  if (letters.length === 1) {
+    result = `${letters}'`;
+  } else if (letters.length > 1) {
+    result = `${letters.slice(0, -1)}"${letters.slice(-1)}`;
+  }
+
+  if (options.thousands && thousands > 0) {
+    const prefix = intToHebrewNumeral(thousands);
+    return result ? `${prefix}${result}` : prefix;
+  }
+
+  return result;
+}
+
 /**
  * Parse a Hebrew year string to full year number
  * Examples: ה'תשפ"ה → 5785, תשע"ט → 5779
@@ -108,77 +189,185 @@ export function parseHebrewDay(dayStr: string): number | null {
   return hebrewNumeralToInt(dayStr);
 }
 
+/**
+ * Normalize Hebrew geresh/gershayim to ASCII quotes for token comparison
+ */
+export function normalizeQuotes(text: string): string {
+  return text.replace(/[״“”]/g, '"').replace(/[׳‘’`]/g, "'");
+}
+
+/**
+ * Exact month-name lookup, allowing a ב/ל prefix ("בטבת", "לאדר ב'")
+ */
+export function lookupHebrewMonth(monthStr: string): number | null {
+  const cleaned = normalizeQuotes(monthStr.trim());
+
+  if (HEBREW_MONTHS[cleaned] !== undefined) {
+    return HEBREW_MONTHS[cleaned];
+  }
+
+  const withoutPrefix = cleaned.replace(/^[בל]/, '');
+  if (withoutPrefix !== cleaned && HEBREW_MONTHS[withoutPrefix] !== undefined) {
+    return HEBREW_MONTHS[withoutPrefix];
+  }
+
+  return null;
+}
+
 /**
  * Parse Hebrew month name to month number (1-13)
  */
 export function parseHebrewMonth(monthStr: string): number | null {
   if (!monthStr) return null;
 
-  const cleaned = monthStr.trim();
+  const exact = lookupHebrewMonth(monthStr);
+  if (exact !== null) {
+    return exact;
+  }
 
-  // Direct lookup
-  if (HEBREW_MONTHS[cleaned] !== undefined) {
-    return HEBREW_MONTHS[cleaned];
+  // Partial match for spelling variants, longest name first so "אדר ב'" wins over "אדר".
+  // Short tokens and numerals (א', ט"ו) are never months.
+  const cleaned = normalizeQuotes(monthStr.trim());
+  if (cleaned.length < 3 || /['"]/.test(cleaned)) {
+    return null;
   }
 
-  // Try case-insensitive partial match
-  const lowerCleaned = cleaned.toLowerCase();
-  for (const [name, num] of Object.entries(HEBREW_MONTHS)) {
-    if (name.includes(lowerCleaned) || lowerCleaned.includes(name)) {
-      return num;
+  const names = Object.keys(HEBREW_MONTHS).sort((a, b) => b.length - a.length);
+  for (const name of names) {
+    if (name.includes(cleaned) || cleaned.includes(name)) {
+      return HEBREW_MONTHS[name];
     }
   }
 
   return null;
 }
 
+// Full numeric date as written on stones: 11.6.2019, 11/6/2019, 11-6-2019
+const GREGORIAN_FULL_DATE_PATTERN = /\b(\d{1,2})[./-](\d{1,2})[./-](\d{4})\b/g;
+
+// Standalone year: 1938, 2019, and older years on reinterment stones (1852)
+const GREGORIAN_YEAR_PATTERN = /\b(1[5-9]\d{2}|20\d{2})\b/g;
+
+// Gregorian month names on bilingual stones: English (full and short) and
+// Russian (nominative and the genitive used in dates: "12 марта")
+export const GREGORIAN_MONTH_NAMES: Record<string, number> = {
+  'january': 1, 'jan': 1, 'february': 2, 'feb': 2, 'march': 3, 'mar': 3,
+  'april': 4, 'apr': 4, 'may': 5, 'june': 6, 'jun': 6, 'july': 7, 'jul': 7,
+  'august': 8, 'aug': 8, 'september': 9, 'sep': 9, 'sept': 9, 'october': 10, 'oct': 10,
+  'november': 11, 'nov': 11, 'december': 12, 'dec': 12,
+  'январь': 1, 'января': 1, 'февраль': 2, 'февраля': 2, 'март': 3, 'марта': 3,
+  'апрель': 4, 'апреля': 4, 'май': 5, 'мая': 5, 'июнь': 6, 'июня': 6,
+  'июль': 7, 'июля': 7, 'август': 8, 'августа': 8, 'сентябрь': 9, 'сентября': 9,
+  'октябрь': 10, 'октября': 10, 'ноябрь': 11, 'ноября': 11, 'декабрь': 12, 'декабря': 12,
+};
+
+// Dates with a month name: "12 марта 2019", "12th March 2019", "March 12, 2019"
+const GREGORIAN_DAY_MONTH_PATTERN = /(?<![\p{L}\d])(\d{1,2})(?:st|nd|rd|th)?\.?\s+(\p{L}+)\.?,?\s+(\d{4})(?!\d)/gu;
+const GREGORIAN_MONTH_DAY_PATTERN = /(?<!\p{L})(\p{L}+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})(?!\d)/gu;
+
+/**
+ * English or Russian month name to month number (1-12), any letter case
+ */
+export function lookupGregorianMonth(name: string): number | null {
+  return GREGORIAN_MONTH_NAMES[name.toLowerCase().replace(/ё/g, 'е')] ?? null;
+}
+
 /**
- * Parse a complete Hebrew date string
- * Examples: "י"א סיון תשע"ט", "ה' בטבת תשפ"ו"
+ * A Gregorian date as read from the stone (day/month are null for year-only text)
  */
-export function parseHebrewDate(dateStr: string): {
+export interface ParsedGregorianDate {
   day: number | null;
   month: number | null;
-  monthName: string | null;
-  year: number | null;
-} {
-  if (!dateStr) {
-    return { day: null, month: null, monthName: null, year: null };
+  year: number;
+  start: number;  // Span of the date in the source text
+  end: number;
+}
+
+/**
+ * Every Gregorian date and standalone year in the text, in reading order
+ * Example: "2019 - 1938" → 2019, 1938
+ */
+export function findGregorianDates(text: string): ParsedGregorianDate[] {
+  if (!text) return [];
+
+  const dates: ParsedGregorianDate[] = [];
+
+  const takeNamedDate = (match: string, day: string, monthName: string, year: string, offset: number) => {
+    const month = lookupGregorianMonth(monthName);
+    if (month === null) return match;
+    dates.push({
+      day: Number(day),
+      month,
+      year: Number(year),
+      start: offset,
+      end: offset + match.length,
+    });
+    return ' '.repeat(match.length);
+  };
+
+  // Take full dates first so their years are not counted twice; blanking them
+  // out with spaces keeps the offsets of the remaining years
+  const remaining = text
+    .replace(GREGORIAN_DAY_MONTH_PATTERN, (match, day, monthName, year, offset: number) =>
+      takeNamedDate(match, day, monthName, year, offset))
+    .replace(GREGORIAN_MONTH_DAY_PATTERN, (match, monthName, day, year, offset: number) =>
+      takeNamedDate(match, day, monthName, year, offset))
+    .replace(GREGORIAN_FULL_DATE_PATTERN, (match, day, month, year, offset: number) => {
+      dates.push({
+        day: Number(day),
+        month: Number(month),
+        year: Number(year),
+        start: offset,
+        end: offset + match.length,
+      });
+      return ' '.repeat(match.length);
+    });
+
+  for (const match of remaining.matchAll(GREGORIAN_YEAR_PATTERN)) {
+    dates.push({
+      day: null,
+      month: null,
+      year: Number(match[1]),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
   }
 
-  // Split by spaces and analyze parts
-  const parts = dateStr.split(/\s+/).filter(Boolean);
+  return dates.sort((a, b) => a.start - b.start);
+}
 
-  let day: number | null = null;
-  let monthNum: number | null = null;
-  let monthName: string | null = null;
-  let year: number | null = null;
+/**
+ * Chronological order key of a date; year-only dates sort before dated ones in the same year
+ */
+export function gregorianSortKey(date: ParsedGregorianDate): number {
+  return date.year * 10000 + (date.month ?? 0) * 100 + (date.day ?? 0);
+}
 
-  for (const part of parts) {
-    // Skip common prefixes
-    if (part === 'ב' || part === 'ל' || part === 'נפ\'') continue;
+/**
+ * Extract Gregorian dates from text, keeping day and month when present.
+ * Dates are sorted chronologically, so a reversed range still reads as
+ * birth then death - the reading order is checked by numberOrder.ts.
+ * Examples: "11.6.2019" → death 11/6/2019, "1938 - 2019" → birth 1938, death 2019,
+ * "12 марта 1938 - 11 июня 2019" → birth 12/3/1938, death 11/6/2019
+ */
+export function extractGregorianDates(text: string): {
+  birthDate: ParsedGregorianDate | null;
+  deathDate: ParsedGregorianDate | null;
+} {
+  const dates = findGregorianDates(text).sort((a, b) => gregorianSortKey(a) - gregorianSortKey(b));
 
-    // Try to parse as month
-    const monthMatch = parseHebrewMonth(part);
-    if (monthMatch !== null) {
-      monthNum = monthMatch;
-      monthName = part;
-      continue;
-    }
+  if (dates.length === 0) {
+    return { birthDate: null, deathDate: null };
+  }
 
-    // Try to parse as number
-    const numValue = hebrewNumeralToInt(part);
-    if (numValue !== null) {
-      // Large numbers are years, small are days
-      if (numValue > 31 || part.includes('ת') || part.includes('ש')) {
-        year = numValue < 1000 ? 5000 + numValue : numValue;
-      } else if (numValue >= 1 && numValue <= 30) {
-        day = numValue;
-      }
-    }
+  if (dates.length === 1) {
+    return { birthDate: null, deathDate: dates[0] };
   }
 
-  return { day, month: monthNum, monthName, year };
+  return {
+    birthDate: dates[0],
+    deathDate: dates[dates.length - 1],
+  };
 }
 
 /**
@@ -189,34 +378,45 @@ export function extractGregorianYears(text: string): {
   birthYear: number | null;
   deathYear: number | null;
 } {
-  const yearPattern = /\b(19\d{2}|20\d{2})\b/g;
-  const matches = text.match(yearPattern);
+  const { birthDate, deathDate } = extractGregorianDates(text);
 
-  if (!matches || matches.length === 0) {
-    return { birthYear: null, deathYear: null };
-  }
+  return {
+    birthYear: birthDate?.year ?? null,
+    deathYear: deathDate?.year ?? null,
+  };
+}
 
-  const years = matches.map(Number).sort((a, b) => a - b);
+// Stated age in digits or gematria: "בן 87 שנים", "בת פ\"ז שנים", "בגיל 64"
+const STATED_AGE_PATTERN = /(?:^|\s)(?:בן|בת|בגיל|לגיל)\s+(\d{1,3}|[א-ת]+["״'׳][א-ת]?|[א-ת]+(?=\s+(?:שנים|שנה|שנות)))/;
 
-  if (years.length === 1) {
-    return { birthYear: null, deathYear: years[0] };
-  }
+/**
+ * Parse the age at death stated on the stone
+ * Examples: "בן 87 שנים" → 87, "בגיל 64" → 64, "בת פ"ז שנים" → 87
+ */
+export function parseStatedAge(text: string): number | null {
+  if (!text) return null;
 
-  return {
-    birthYear: years[0],
-    deathYear: years[years.length - 1],
-  };
+  const match = text.match(STATED_AGE_PATTERN);
+  if (!match) return null;
+
+  const value = /^\d+$/.test(match[1]) ? Number(match[1]) : hebrewNumeralToInt(match[1]);
+  if (value === null || value <= 0 || value > 130) return null;
+
+  return value;
 }
 
 /**
  * Check if text contains valid memorial abbreviations
  */
 export function findAbbreviations(text: string): string[] {
+  const normalized = normalizeQuotes(text);
   const found: string[] = [];
 
-  for (const abbrev of Object.keys(MEMORIAL_ABBREVIATIONS)) {
-    if (text.includes(abbrev)) {
-      found.push(abbrev);
+  for (const entry of memorialDictionary) {
+    // Whole words only: ע"ה is not found inside בע"ה
+    const term = normalizeQuotes(entry.term).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`(?<![א-ת"'])${term}(?![א-ת"'])`).test(normalized)) {
+      found.push(entry.term);
     }
   }
 
@@ -227,7 +427,7 @@ export function findAbbreviations(text: string): string[] {
  * Validate abbreviation format
  */
 export function isValidAbbreviation(text: string): boolean {
-  return Object.keys(MEMORIAL_ABBREVIATIONS).includes(text);
+  return findDictionaryEntry(text) !== null;
 }
 
 /**
@@ -240,3 +440,45 @@ export function getHebrewMonthName(monthNum: number): string | null {
   ];
   return monthNames[monthNum] || null;
 }
+
+// Final (sofit) forms of the five letters that have one
+const FINAL_FORMS: Record<string, string> = { 'כ': 'ך', 'מ': 'ם', 'נ': 'ן', 'פ': 'ף', 'צ': 'ץ' };
+const REGULAR_FORMS: Record<string, string> = Object.fromEntries(
+  Object.entries(FINAL_FORMS).map(([regular, final]) => [final, regular])
+);
+
+/**
+ * Replace every final letter with its regular form, for comparing spellings (שלום → שלומ)
+ */
+export function normalizeFinalLetters(word: string): string {
+  return word.replace(/[ךםןףץ]/g, (letter) => REGULAR_FORMS[letter]);
+}
+
+/**
+ * Spell a word with a final form only as its last letter: a final letter in
+ * mid-word becomes regular and a closing כ/מ/נ/פ/צ becomes final (שלומ → שלום)
+ */
+export function fixFinalLetters(word: string): string {
+  const regular = normalizeFinalLetters(word);
+  const last = regular.slice(-1);
+  return FINAL_FORMS[last] && regular.length > 1 ? regular.slice(0, -1) + FINAL_FORMS[last] : regular;
+}
+
+/**
+ * Levenshtein distance between two words, in letters
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,124 @@
+/**
+ * House Style
+ * Checks the stone text against the shop's canonical variants: quote marks,
+ * how ת.נ.צ.ב.ה is abbreviated, and maqaf vs hyphen
+ */
+
+import type { HouseStyleProfile, IssueCategory, ProofreadingIssue } from '../types/proofreader';
+import { isValidAbbreviation } from './hebrewTextUtils';
+
+// Used until a profile has been saved on the server
+export const DEFAULT_HOUSE_STYLE: HouseStyleProfile = {
+  quotes: 'ascii',
+  tanatzbah: 'dotted',
+  dash: 'hyphen',
+};
+
+const MAQAF = '־';
+
+// Gershayim and geresh between/after Hebrew letters, in any of their forms
+const GERSHAYIM_PATTERN = /(?<=[א-ת])["״“”](?=[א-ת])/g;
+const GERESH_PATTERN = /(?<=[א-ת])['׳‘’`]/g;
+
+// ת.נ.צ.ב.ה (optionally with a final dot) and תנצב"ה
+const TANATZBAH_DOTTED_PATTERN = /ת\.נ\.צ\.ב\.ה\.?/g;
+const TANATZBAH_GERSHAYIM_PATTERN = /תנצב["״]ה/g;
+
+// A hyphen or maqaf joining two Hebrew words
+const DASH_PATTERN = /(?<=[א-ת])[-־](?=[א-ת])/g;
+
+// One aspect of the house style, applied to a single word
+interface StyleRule {
+  apply: (word: string) => string;
+  explanation: string;
+  abbreviation: boolean;  // Deviations are abbreviation issues rather than formatting
+}
+
+/**
+ * The rules a profile implies, tanatzbah first so its canonical form
+ * already carries the house quote mark
+ */
+function buildStyleRules(profile: HouseStyleProfile): StyleRule[] {
+  const gershayim = profile.quotes === 'hebrew' ? '״' : '"';
+  const geresh = profile.quotes === 'hebrew' ? '׳' : "'";
+  const dash = profile.dash === 'maqaf' ? MAQAF : '-';
+
+  return [
+    profile.tanatzbah === 'dotted'
+      ? {
+        apply: (word) => word.replace(TANATZBAH_GERSHAYIM_PATTERN, 'ת.נ.צ.ב.ה'),
+        explanation: 'לפי סגנון הבית כותבים ת.נ.צ.ב.ה בנקודות',
+        abbreviation: true,
+      }
+      : {
+        apply: (word) => word.replace(TANATZBAH_DOTTED_PATTERN, `תנצב${gershayim}ה`),
+        explanation: `לפי סגנון הבית כותבים תנצב${gershayim}ה בגרשיים`,
+        abbreviation: true,
+      },
+    {
+      apply: (word) => word.replace(GERSHAYIM_PATTERN, gershayim).replace(GERESH_PATTERN, geresh),
+      explanation: profile.quotes === 'hebrew'
+        ? 'לפי סגנון הבית משתמשים בגרשיים (״) ובגרש (׳) עבריים'
+        : 'לפי סגנון הבית משתמשים במירכאות (") ובגרש (\') רגילים',
+      abbreviation: false,
+    },
+    {
+      apply: (word) => word.replace(DASH_PATTERN, dash),
+      explanation: profile.dash === 'maqaf'
+        ? `לפי סגנון הבית מחברים מילים במקף עברי (${MAQAF})`
+        : 'לפי סגנון הבית מחברים מילים במקף רגיל (-)',
+      abbreviation: false,
+    },
+  ];
+}
+
+/**
+ * Flag every word in the text that deviates from the house style, with the
+ * canonical form as the suggested fix
+ */
+export function checkHouseStyle(
+  rawText: string,
+  profile: HouseStyleProfile = DEFAULT_HOUSE_STYLE
+): ProofreadingIssue[] {
+  if (!rawText) return [];
+
+  const rules = buildStyleRules(profile);
+  const issues: ProofreadingIssue[] = [];
+
+  for (const line of rawText.split('\n')) {
+    for (const match of line.matchAll(/\S+/g)) {
+      const word = match[0];
+      let canonical = word;
+      const broken: StyleRule[] = [];
+
+      for (const rule of rules) {
+        const next = rule.apply(canonical);
+        if (next !== canonical) {
+          broken.push(rule);
+          canonical = next;
+        }
+      }
+
+      if (broken.length === 0) continue;
+
+      const isAbbreviation = broken.some((rule) => rule.abbreviation)
+        || isValidAbbreviation(word.replace(/^[^א-ת]+|[^א-ת"״'׳]+$/g, ''));
+      const category: IssueCategory = isAbbreviation ? 'abbreviation' : 'formatting';
+
+      issues.push({
+        id: `style-${Date.now()}-${issues.length}`,
+        category,
+        severity: 'warning',
+        originalText: word,
+        suggestedFix: canonical,
+        explanation: broken.map((rule) => rule.explanation).join('; '),
+        location: {
+          context: line,
+          span: { start: match.index!, end: match.index! + word.length },
+        },
+      });
+    }
+  }
+
+  return issues;
+}
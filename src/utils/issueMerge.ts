@@ -0,0 +1,39 @@
+/**
+ * Issue Merging
+ * Combines issues from the AI model with issues from local checks
+ */
+
+import type { ProofreadingIssue } from '../types/proofreader';
+import { normalizeQuotes } from './hebrewTextUtils';
+
+/**
+ * Normalize text for comparing issues: quotes unified, whitespace collapsed.
+ * Missing elements have no original text and are compared by their fix.
+ */
+function issueKey(issue: ProofreadingIssue): string {
+  const normalize = (value: string) => normalizeQuotes(value).replace(/\s+/g, ' ').trim();
+  const text = normalize(issue.originalText);
+  if (text) return `${issue.category}:${text}`;
+  return `${issue.category}:+${normalize(issue.suggestedFix || issue.explanation)}`;
+}
+
+/**
+ * Append local issues to existing ones, skipping any that flag the same text
+ * in the same category as an issue already present
+ */
+export function mergeIssues(
+  existing: ProofreadingIssue[],
+  additional: ProofreadingIssue[]
+): ProofreadingIssue[] {
+  const seen = new Set(existing.map(issueKey));
+  const merged = [...existing];
+
+  for (const issue of additional) {
+    const key = issueKey(issue);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(issue);
+  }
+
+  return merged;
+}
@@ -0,0 +1,217 @@
+/**
+ * Layout Metrics
+ * Measures the engraved lines of a stone before it is cut: letters per line
+ * against the maximum for the stone size, the balance of mirrored lines in a
+ * centred layout, and the letter counts used for pricing
+ */
+
+import type {
+  ExtractedTombstoneText,
+  HouseStyleProfile,
+  LayoutMetrics,
+  LineMetrics,
+  MirroredLinePair,
+  ProofreadingIssue,
+  StoneSize,
+  TextLayerLine,
+} from '../types/proofreader';
+import { normalizeQuotes } from './hebrewTextUtils';
+
+export const STONE_SIZES: Record<StoneSize, { label: string; maxLettersPerLine: number }> = {
+  small: { label: 'קטנה (עד 50 ס"מ)', maxLettersPerLine: 18 },
+  standard: { label: 'רגילה (60-70 ס"מ)', maxLettersPerLine: 24 },
+  large: { label: 'גדולה (80 ס"מ ומעלה)', maxLettersPerLine: 32 },
+  double: { label: 'זוגית (לכל צד)', maxLettersPerLine: 22 },
+};
+
+// Panel separator the model writes between stones on one image
+const PANEL_SEPARATOR_PATTERN = /^[\s─━—_-]{3,}$/;
+
+// Relative glyph widths for estimating line width from text alone
+const NARROW_CHARACTERS = /[וזיןׁ.,:;'"׳״()\-־ilI1]/;
+const WIDE_CHARACTERS = /[משםצטMWmwШЩЖМшщжм]/;
+
+/**
+ * Characters that are cut into the stone: letters, digits and marks, not spaces or niqqud
+ */
+export function countLetters(text: string): number {
+  return [...text].filter((char) => /[\p{L}\p{N}\p{P}\p{S}]/u.test(char)).length;
+}
+
+/**
+ * Width of a line in letter widths, narrow letters counting half
+ */
+function estimateWidth(text: string): number {
+  return [...text].reduce((width, char) => {
+    if (/\p{M}/u.test(char)) return width;
+    if (/\s/.test(char) || NARROW_CHARACTERS.test(char)) return width + 0.5;
+    return width + (WIDE_CHARACTERS.test(char) ? 1.2 : 1);
+  }, 0);
+}
+
+/**
+ * The letters-per-line maximum for a stone size: the shop's setting, or the size default
+ */
+export function getLineLimit(size: StoneSize, houseStyle?: HouseStyleProfile): number {
+  return houseStyle?.lineLimits?.[size] ?? STONE_SIZES[size].maxLettersPerLine;
+}
+
+/**
+ * Lines in stone order with their panel, from the text layer when it has
+ * text or else from the model's raw text
+ */
+function readLines(rawText: string, textLayer?: TextLayerLine[]): {
+  source: LayoutMetrics['source'];
+  lines: Array<{ text: string; panel: number; width: number }>;
+} {
+  if (textLayer && textLayer.some((line) => countLetters(line.text) > 0)) {
+    const lines = textLayer
+      .filter((line) => countLetters(line.text) > 0)
+      .map((line) => ({ text: line.text, panel: line.column, width: line.width }))
+      .sort((a, b) => a.panel - b.panel);
+    return { source: 'textLayer', lines };
+  }
+
+  const lines: Array<{ text: string; panel: number; width: number }> = [];
+  let panel = 0;
+  for (const line of rawText.split('\n')) {
+    const text = line.trim();
+    if (PANEL_SEPARATOR_PATTERN.test(text)) {
+      if (lines.length > 0 && lines[lines.length - 1].panel === panel) panel++;
+      continue;
+    }
+    if (countLetters(text) === 0) continue;
+    lines.push({ text, panel, width: estimateWidth(text) });
+  }
+
+  return { source: 'rawText', lines };
+}
+
+/**
+ * Pair each line with the one at the same distance from the bottom of its panel
+ */
+function mirroredPairs(lines: LineMetrics[]): MirroredLinePair[] {
+  const pairs: MirroredLinePair[] = [];
+  const panels = [...new Set(lines.map((line) => line.panel))];
+
+  for (const panel of panels) {
+    const indexes = lines.flatMap((line, index) => (line.panel === panel ? [index] : []));
+    for (let i = 0; i < Math.floor(indexes.length / 2); i++) {
+      const top = indexes[i];
+      const bottom = indexes[indexes.length - 1 - i];
+      const wider = Math.max(lines[top].width, lines[bottom].width);
+      pairs.push({
+        top,
+        bottom,
+        widthDifference: wider > 0 ? Math.abs(lines[top].width - lines[bottom].width) / wider : 0,
+      });
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Letters per memorial. A memorial's lines start at the line with its name;
+ * lines of a panel before the first name belong to that memorial when the
+ * panel has only one, and are shared (family header, common פ"נ) otherwise.
+ */
+function lettersByMemorial(
+  lines: LineMetrics[],
+  extracted: ExtractedTombstoneText
+): { memorialLetters: LayoutMetrics['memorialLetters']; sharedLetters: number } {
+  const normalize = (text: string) => normalizeQuotes(text).replace(/\s+/g, ' ').trim();
+  const owners: Array<number | null> = lines.map(() => null);
+  const memorialLetters: LayoutMetrics['memorialLetters'] = [];
+  let searchFrom = 0;
+
+  extracted.memorials.forEach((memorial) => {
+    if (!memorial.name) return;
+    const name = normalize(memorial.name);
+    const start = lines.findIndex((line, index) => index >= searchFrom && normalize(line.text).includes(name));
+    if (start === -1) return;
+
+    const owner = memorialLetters.length;
+    memorialLetters.push({ memorialName: memorial.name, letters: 0 });
+    for (let i = start; i < lines.length && lines[i].panel === lines[start].panel; i++) {
+      owners[i] = owner;
+    }
+    searchFrom = start + 1;
+  });
+
+  // Lines of a panel before its first name
+  for (const panel of new Set(lines.map((line) => line.panel))) {
+    const panelOwners = new Set(owners.filter((owner, index) => owner !== null && lines[index].panel === panel));
+    if (panelOwners.size !== 1) continue;
+    const [owner] = panelOwners;
+    lines.forEach((line, index) => {
+      if (line.panel === panel && owners[index] === null) owners[index] = owner;
+    });
+  }
+
+  let sharedLetters = 0;
+  lines.forEach((line, index) => {
+    const owner = owners[index];
+    if (owner === null) {
+      sharedLetters += line.letters;
+    } else {
+      memorialLetters[owner].letters += line.letters;
+    }
+  });
+
+  return { memorialLetters, sharedLetters };
+}
+
+/**
+ * Measure the lines of one page
+ */
+export function computeLayoutMetrics(
+  extracted: ExtractedTombstoneText,
+  options: { page: number; stoneSize: StoneSize; maxLettersPerLine: number; textLayer?: TextLayerLine[] }
+): LayoutMetrics {
+  const { source, lines: read } = readLines(extracted.rawText || '', options.textLayer);
+
+  const lines: LineMetrics[] = read.map((line) => {
+    const letters = countLetters(line.text);
+    return { ...line, letters, overLimit: letters > options.maxLettersPerLine };
+  });
+
+  const longestLine = lines.reduce(
+    (longest, line, index) => (longest === -1 || line.letters > lines[longest].letters ? index : longest),
+    -1
+  );
+
+  const { memorialLetters, sharedLetters } = lettersByMemorial(lines, extracted);
+
+  return {
+    page: options.page,
+    source,
+    stoneSize: options.stoneSize,
+    maxLettersPerLine: options.maxLettersPerLine,
+    lines,
+    longestLine,
+    mirroredPairs: mirroredPairs(lines),
+    memorialLetters,
+    sharedLetters,
+    totalLetters: lines.reduce((total, line) => total + line.letters, 0),
+  };
+}
+
+/**
+ * A formatting warning for every line longer than the stone size allows
+ */
+export function layoutIssues(metrics: LayoutMetrics): ProofreadingIssue[] {
+  const size = STONE_SIZES[metrics.stoneSize].label;
+
+  return metrics.lines
+    .filter((line) => line.overLimit)
+    .map((line, index): ProofreadingIssue => ({
+      id: `layout-${Date.now()}-${index}`,
+      category: 'formatting',
+      severity: 'warning',
+      originalText: line.text,
+      explanation: `בשורה ${line.letters} תווים - יותר מ-${metrics.maxLettersPerLine} המותרים במצבה ${size}; `
+        + 'יש לפצל את השורה או להקטין את הגופן',
+      location: { context: line.text },
+    }));
+}
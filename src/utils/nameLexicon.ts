@@ -0,0 +1,184 @@
+/**
+ * Name Lexicon
+ * Checks the names on a stone against known spellings of Hebrew given names
+ * and surnames, so rare or unfamiliar spellings are confirmed before engraving
+ */
+
+import type {
+  ConfirmedName,
+  ExtractedTombstoneText,
+  NameCheck,
+  NameField,
+  NameKind,
+  NameLexiconEntry,
+  ProofreadingIssue,
+} from '../types/proofreader';
+import lexicon from '../data/nameLexicon.json';
+import { editDistance, normalizeFinalLetters } from './hebrewTextUtils';
+
+export const DEFAULT_NAME_LEXICON: NameLexiconEntry[] = lexicon as NameLexiconEntry[];
+
+// Every spelling in the lexicon, with its entry and whether it is a rare one
+const SPELLINGS = new Map<string, { entry: NameLexiconEntry; rare: boolean }>();
+for (const entry of DEFAULT_NAME_LEXICON) {
+  for (const spelling of entry.spellings) {
+    if (!SPELLINGS.has(spelling)) SPELLINGS.set(spelling, { entry, rare: false });
+  }
+  for (const spelling of entry.rareSpellings ?? []) {
+    if (!SPELLINGS.has(spelling)) SPELLINGS.set(spelling, { entry, rare: true });
+  }
+}
+
+// Surnames of more than one word ("בן שושן") are matched before the text is split into words
+const MULTI_WORD_SPELLINGS = [...SPELLINGS.keys()].filter((spelling) => spelling.includes(' '));
+
+// Spellings confirmed by the office, loaded from the server before each check
+let confirmedNames = new Map<string, ConfirmedName>();
+
+// Titles and kinship words that appear in name fields but are not names
+const NON_NAME_WORDS = new Set([
+  'בן', 'בת', 'בר', 'רבי', 'הרב', 'הרבנית', 'מרת', 'הכהן', 'הלוי',
+  'המנוח', 'המנוחה', 'אבינו', 'אמנו', 'אבי', 'אמי', 'משפחת',
+]);
+
+const FIELD_LABELS: Record<NameField, string> = {
+  name: 'שם',
+  parentNames: 'שמות ההורים',
+  familyName: 'שם משפחה',
+};
+
+/**
+ * Replace the spellings confirmed by the office
+ */
+export function setConfirmedNames(names: ConfirmedName[]): void {
+  confirmedNames = new Map(names.map((name) => [name.spelling, name]));
+}
+
+export function addConfirmedName(name: ConfirmedName): void {
+  confirmedNames.set(name.spelling, name);
+}
+
+/**
+ * Whether a word is a name spelling in the lexicon (common or rare) or confirmed by the office
+ */
+export function isKnownName(word: string): boolean {
+  return confirmedNames.has(word) || SPELLINGS.has(word);
+}
+
+/**
+ * Whether two spellings are likely the same name: one letter apart, or the
+ * same apart from ו/י (ktiv male vs. ktiv haser)
+ */
+function isCloseSpelling(a: string, b: string): boolean {
+  const x = normalizeFinalLetters(a);
+  const y = normalizeFinalLetters(b);
+  if (x.replace(/[וי]/g, '') === y.replace(/[וי]/g, '')) return true;
+  return Math.min(x.length, y.length) >= 3 && editDistance(x, y) === 1;
+}
+
+/**
+ * Check one name against the lexicon. Returns null for common and confirmed
+ * spellings, and for names too far from anything in the lexicon to suggest a spelling.
+ */
+export function checkNameSpelling(
+  word: string,
+  field: NameField
+): Omit<NameCheck, 'memorialName'> | null {
+  // "ושרה" in "בן אברהם ושרה"
+  const name = !isKnownName(word) && word.startsWith('ו') && isKnownName(word.slice(1))
+    ? word.slice(1)
+    : word;
+
+  if (confirmedNames.has(name)) return null;
+
+  const known = SPELLINGS.get(name);
+  if (known && !known.rare) return null;
+  if (known) {
+    return { word: name, field, status: 'rare', kind: known.entry.kind, commonSpellings: known.entry.spellings };
+  }
+
+  // Parents are listed by given name; a family name field holds only surnames
+  const kinds: NameKind[] = field === 'familyName' ? ['family'] : field === 'parentNames' ? ['given'] : ['given', 'family'];
+  const findCandidates = (spelling: string) => DEFAULT_NAME_LEXICON.filter((entry) => kinds.includes(entry.kind)
+    && [...entry.spellings, ...(entry.rareSpellings ?? [])].some((listed) => isCloseSpelling(spelling, listed)));
+
+  // A misspelt name can still carry a ו prefix ("ומרם" for "ומרים")
+  const unprefixed = name.startsWith('ו') ? findCandidates(name.slice(1)) : [];
+  const bare = unprefixed.length > 0 ? name.slice(1) : name;
+  const candidates = unprefixed.length > 0 ? unprefixed : findCandidates(name);
+  if (candidates.length === 0) return null;
+
+  return {
+    word: bare,
+    field,
+    status: 'unknown',
+    kind: candidates[0].kind,
+    commonSpellings: [...new Set(candidates.flatMap((entry) => entry.spellings))].slice(0, 4),
+  };
+}
+
+/**
+ * The name words in a field with their positions; titles, kinship words and
+ * abbreviations (ז"ל, ר') are skipped
+ */
+function nameWords(text: string): Array<{ text: string; start: number; end: number }> {
+  let blanked = text;
+  for (const spelling of MULTI_WORD_SPELLINGS) {
+    blanked = blanked.split(spelling).join(' '.repeat(spelling.length));
+  }
+
+  return [...blanked.matchAll(/[א-ת]+(?:["'״׳][א-ת]*)?/g)]
+    .filter((match) => !/["'״׳]/.test(match[0]) && match[0].length >= 2 && !NON_NAME_WORDS.has(match[0]))
+    .map((match) => ({ text: match[0], start: match.index!, end: match.index! + match[0].length }));
+}
+
+/**
+ * Check the names, parents' names and family name on a stone. Returns a
+ * check per unusual spelling for the report, and a spelling warning for each.
+ */
+export function checkMemorialNames(extracted: ExtractedTombstoneText): {
+  checks: NameCheck[];
+  issues: ProofreadingIssue[];
+} {
+  const fields: Array<{ field: NameField; text?: string; memorialName?: string }> = [
+    { field: 'familyName', text: extracted.familyName },
+    ...extracted.memorials.flatMap((memorial) => [
+      { field: 'name' as const, text: memorial.name, memorialName: memorial.name },
+      { field: 'parentNames' as const, text: memorial.parentNames, memorialName: memorial.name },
+    ]),
+  ];
+
+  const checks: NameCheck[] = [];
+  const issues: ProofreadingIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const { field, text, memorialName } of fields) {
+    if (!text) continue;
+
+    for (const word of nameWords(text)) {
+      const check = checkNameSpelling(word.text, field);
+      if (!check || seen.has(check.word)) continue;
+      seen.add(check.word);
+
+      const spellings = check.commonSpellings.map((spelling) => `"${spelling}"`).join(', ');
+      checks.push({ ...check, memorialName });
+      issues.push({
+        id: `name-${Date.now()}-${issues.length}`,
+        category: 'spelling',
+        severity: 'warning',
+        originalText: word.text,
+        suggestedFix: word.text.replace(check.word, check.commonSpellings[0]),
+        explanation: check.status === 'rare'
+          ? `"${check.word}" הוא כתיב נדיר; הכתיב הנפוץ: ${spellings}. יש לוודא עם המשפחה`
+          : `הכתיב "${check.word}" אינו מוכר במאגר השמות; כתיבים נפוצים: ${spellings}`,
+        location: {
+          section: memorialName ?? FIELD_LABELS[field],
+          context: text,
+          span: { start: word.start, end: word.end },
+        },
+      });
+    }
+  }
+
+  return { checks, issues };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractedTombstoneText, MemorialEntry } from '../types/proofreader';
+import { checkNumberOrder } from './numberOrder';
+
+function stone(rawText: string, memorials: MemorialEntry[] = []): ExtractedTombstoneText {
+  return { rawText, memorials, headerFormulas: [], footerFormulas: [] };
+}
+
+describe('checkNumberOrder', () => {
+  it('accepts a range and a date in reading order', () => {
+    expect(checkNumberOrder(stone('1938 - 2019\nנפטר 11.6.2019'))).toEqual([]);
+  });
+
+  it('reports a range that starts with the later year', () => {
+    const issues = checkNumberOrder(stone('2019 - 1938'));
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ category: 'formatting', severity: 'error', originalText: '2019 - 1938', suggestedFix: '1938 - 2019' });
+  });
+
+  it('reports a full date written year first', () => {
+    expect(checkNumberOrder(stone('נפטר 2019.6.11'))).toMatchObject([{ originalText: '2019.6.11', suggestedFix: '11.6.2019' }]);
+  });
+
+  it('reports a year with its digits reversed', () => {
+    expect(checkNumberOrder(stone('נולד 8391'))).toMatchObject([{ originalText: '8391', suggestedFix: '1938' }]);
+  });
+
+  it('checks the memorial\'s Gregorian years once when the text repeats them', () => {
+    const issues = checkNumberOrder(stone('2019 - 1938', [{ gregorianYears: '2019 - 1938' }]));
+    expect(issues).toHaveLength(1);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Number Order
+ * Finds numbers whose order was broken when design software laid them out
+ * inside right-to-left text: a range that starts with the death year, a
+ * full date with its year first, and a year with its digits reversed
+ */
+
+import type { ExtractedTombstoneText, ProofreadingIssue } from '../types/proofreader';
+import { findGregorianDates, gregorianSortKey } from './hebrewTextUtils';
+
+// The dash between the two ends of a range, with any spacing around it
+const RANGE_SEPARATOR_PATTERN = /^\s*[-–—־]\s*$/;
+
+// A full date written year first: 2019.6.11 for 11.6.2019
+const YEAR_FIRST_DATE_PATTERN = /(?<![\d./-])(\d{4})([./-])(\d{1,2})\2(\d{1,2})(?![\d./-])/g;
+
+// A four-digit number standing alone
+const FOUR_DIGIT_PATTERN = /(?<![\d./-])(\d{4})(?![\d./-])/g;
+
+const isPlausibleYear = (year: number) => year >= 1500 && year <= new Date().getFullYear();
+
+/**
+ * Number-order problems in one line of text
+ */
+function checkLine(line: string): Array<Omit<ProofreadingIssue, 'id'>> {
+  const issues: Array<Omit<ProofreadingIssue, 'id'>> = [];
+
+  const add = (start: number, end: number, suggestedFix: string, explanation: string) => {
+    issues.push({
+      category: 'formatting',
+      severity: 'error',
+      originalText: line.slice(start, end),
+      suggestedFix,
+      explanation,
+      location: { context: line, span: { start, end } },
+    });
+  };
+
+  // Ranges, in reading order: the earlier date must come first
+  const dates = findGregorianDates(line);
+  for (let i = 0; i + 1 < dates.length; i++) {
+    const [first, second] = [dates[i], dates[i + 1]];
+    const separator = line.slice(first.end, second.start);
+    if (!RANGE_SEPARATOR_PATTERN.test(separator) || gregorianSortKey(first) <= gregorianSortKey(second)) continue;
+
+    const firstText = line.slice(first.start, first.end);
+    const secondText = line.slice(second.start, second.end);
+    add(
+      first.start,
+      second.end,
+      `${secondText}${separator}${firstText}`,
+      `הטווח מתחיל ב-${firstText} ומסתיים ב-${secondText} - תאריך הפטירה קודם לתאריך הלידה. `
+        + 'כנראה סדר המספרים התהפך בעימוד מימין לשמאל'
+    );
+  }
+
+  for (const match of line.matchAll(YEAR_FIRST_DATE_PATTERN)) {
+    const [text, year, separator, month, day] = match;
+    add(
+      match.index!,
+      match.index! + text.length,
+      [day, month, year].join(separator),
+      `בתאריך "${text}" השנה באה ראשונה - על המצבה נכתב יום.חודש.שנה; `
+        + 'כנראה סדר הקבוצות התהפך בעימוד מימין לשמאל'
+    );
+  }
+
+  for (const match of line.matchAll(FOUR_DIGIT_PATTERN)) {
+    const reversed = [...match[1]].reverse().join('');
+    if (isPlausibleYear(Number(match[1])) || !isPlausibleYear(Number(reversed))) continue;
+
+    add(
+      match.index!,
+      match.index! + match[1].length,
+      reversed,
+      `"${match[1]}" אינה שנה אפשרית, ובסדר הפוך היא ${reversed} - כנראה הספרות התהפכו בעימוד מימין לשמאל`
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Check the stone text and each memorial's Gregorian dates for numbers in the
+ * wrong order. extractGregorianDates sorts dates chronologically, so these
+ * are only visible in reading order.
+ */
+export function checkNumberOrder(extracted: ExtractedTombstoneText): ProofreadingIssue[] {
+  const lines = [
+    ...(extracted.rawText || '').split('\n'),
+    ...extracted.memorials.map((memorial) => memorial.gregorianYears || ''),
+  ];
+
+  const issues: ProofreadingIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const line of lines) {
+    for (const issue of checkLine(line)) {
+      if (seen.has(issue.originalText)) continue;
+      seen.add(issue.originalText);
+      issues.push({ id: `order-${Date.now()}-${issues.length}`, ...issue });
+    }
+  }
+
+  return issues;
+}
@@ -4,6 +4,9 @@
  */
 
 import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { TextLayerLine } from '../types/proofreader';
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.mjs`;
@@ -11,9 +14,13 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs
 // Claude Vision API max dimension is 8000px, use 4000 to be safe
 const MAX_DIMENSION = 4000;
 
+// A horizontal gap wider than this many line heights separates two panels
+const PANEL_GAP_LINE_HEIGHTS = 4;
+
 export interface PDFConversionResult {
   success: boolean;
   images?: Blob[];
+  textLayers?: TextLayerLine[][];  // Per page; empty when the text was converted to outlines
   pageCount?: number;
   error?: string;
 }
@@ -56,6 +63,58 @@ function resizeCanvasIfNeeded(
   return resizedCanvas;
 }
 
+/**
+ * Lines of a page's text layer, top to bottom. Items are grouped by baseline,
+ * and a line is split where a wide gap separates the panels of a double stone;
+ * a line's width runs from its leftmost to its rightmost glyph.
+ */
+async function extractTextLines(page: PDFPageProxy): Promise<TextLayerLine[]> {
+  const content = await page.getTextContent();
+  const items = content.items.filter((item): item is TextItem => 'str' in item && item.str.trim() !== '');
+  const rows: Array<{ y: number; height: number; items: TextItem[] }> = [];
+
+  for (const item of items) {
+    const y = item.transform[5];
+    const row = rows.find((r) => Math.abs(r.y - y) <= Math.max(2, Math.min(r.height, item.height) / 2));
+    if (row) {
+      row.items.push(item);
+    } else {
+      rows.push({ y, height: item.height, items: [item] });
+    }
+  }
+
+  const lines: TextLayerLine[] = [];
+
+  for (const row of rows.sort((a, b) => b.y - a.y)) {
+    // Right to left, as Hebrew is read
+    const sorted = [...row.items].sort((a, b) => b.transform[4] - a.transform[4]);
+    const segments: TextItem[][] = [[sorted[0]]];
+
+    for (const item of sorted.slice(1)) {
+      const segment = segments[segments.length - 1];
+      const previous = segment[segment.length - 1];
+      const gap = previous.transform[4] - (item.transform[4] + item.width);
+      if (gap > PANEL_GAP_LINE_HEIGHTS * row.height) {
+        segments.push([item]);
+      } else {
+        segment.push(item);
+      }
+    }
+
+    segments.forEach((segment, column) => {
+      const left = Math.min(...segment.map((item) => item.transform[4]));
+      const right = Math.max(...segment.map((item) => item.transform[4] + item.width));
+      lines.push({
+        text: segment.map((item) => item.str).join(' ').replace(/\s+/g, ' ').trim(),
+        width: right - left,
+        column,
+      });
+    });
+  }
+
+  return lines;
+}
+
 /**
  * Convert a PDF file to an array of image Blobs (one per page)
  * @param pdfFile - The PDF file to convert
@@ -69,11 +128,13 @@ export async function pdfToImages(
     const arrayBuffer = await pdfFile.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     const images: Blob[] = [];
+    const textLayers: TextLayerLine[][] = [];
 
     console.log(`PDF loaded: ${pdf.numPages} page(s) detected`);
 
     for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
       const page = await pdf.getPage(pageNum);
+      textLayers.push(await extractTextLines(page));
       const viewport = page.getViewport({ scale });
 
       // Create canvas for rendering
@@ -113,6 +174,7 @@ export async function pdfToImages(
     return {
       success: true,
       images,
+      textLayers,
       pageCount: pdf.numPages,
     };
   } catch (error) {
@@ -0,0 +1,290 @@
+/**
+ * Proofread Response Schema
+ * Runtime validation of the JSON a model returns, shared by /api/proofread
+ * and the browser: fields of the wrong type are dropped, near-miss enum
+ * values ("Spelling", "punctuation", "high") are coerced, and every change
+ * is reported with the path of the field
+ */
+
+import type {
+  ExtractedTombstoneText,
+  IssueCategory,
+  IssueSeverity,
+  MemorialEntry,
+  ProofreadingIssue,
+  ProofreadResponseData,
+  SchemaFieldError,
+  TextBlock,
+  TextLanguage,
+} from '../types/proofreader';
+import { editDistance } from './hebrewTextUtils';
+
+export type SchemaResult =
+  | { ok: true; data: ProofreadResponseData; errors: SchemaFieldError[] }
+  | { ok: false; errors: SchemaFieldError[] };
+
+const CATEGORIES: IssueCategory[] = [
+  'spelling', 'grammar', 'abbreviation', 'date_mismatch', 'quote_accuracy', 'formatting', 'missing_element',
+];
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'suggestion'];
+const LANGUAGES: TextLanguage[] = ['he', 'ru', 'en'];
+
+// Values models use instead of ours, after lower-casing and joining words with _
+const CATEGORY_ALIASES: Record<string, IssueCategory> = {
+  typo: 'spelling',
+  orthography: 'spelling',
+  gender: 'grammar',
+  gender_agreement: 'grammar',
+  agreement: 'grammar',
+  acronym: 'abbreviation',
+  date: 'date_mismatch',
+  dates: 'date_mismatch',
+  date_error: 'date_mismatch',
+  quote: 'quote_accuracy',
+  citation: 'quote_accuracy',
+  verse: 'quote_accuracy',
+  punctuation: 'formatting',
+  layout: 'formatting',
+  spacing: 'formatting',
+  style: 'formatting',
+  missing: 'missing_element',
+  omission: 'missing_element',
+};
+const SEVERITY_ALIASES: Record<string, IssueSeverity> = {
+  critical: 'error',
+  high: 'error',
+  major: 'error',
+  medium: 'warning',
+  moderate: 'warning',
+  minor: 'warning',
+  low: 'suggestion',
+  info: 'suggestion',
+  note: 'suggestion',
+  hint: 'suggestion',
+};
+const LANGUAGE_ALIASES: Record<string, TextLanguage> = {
+  hebrew: 'he',
+  iw: 'he',
+  russian: 'ru',
+  english: 'en',
+};
+
+const MEMORIAL_FIELDS: Array<keyof MemorialEntry> = [
+  'name', 'relationship', 'parentNames', 'hebrewBirthDate', 'hebrewDeathDate',
+  'gregorianYears', 'statedAge', 'quote', 'transliteratedName',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+/**
+ * One of the allowed values for an enum field: exact, a known alias, a
+ * plural, or a single unambiguous value within two typos. Null when nothing fits.
+ */
+function coerceEnum<T extends string>(value: unknown, allowed: T[], aliases: Record<string, T>): T | null {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+  if ((allowed as string[]).includes(key)) return key as T;
+  if (aliases[key]) return aliases[key];
+  const singular = key.replace(/s$/, '');
+  if ((allowed as string[]).includes(singular)) return singular as T;
+  if (aliases[singular]) return aliases[singular];
+
+  if (key.length < 5) return null;
+  const near = allowed.filter((option) => editDistance(key, option) <= 2);
+  return near.length === 1 ? near[0] : null;
+}
+
+/**
+ * An optional string; numbers are written out, null and undefined are absent
+ */
+function optionalString(value: unknown, path: string, errors: SchemaFieldError[]): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  errors.push({ path, message: `expected a string, got ${describe(value)}` });
+  return undefined;
+}
+
+/**
+ * A list of strings; a single string becomes a list of one
+ */
+function stringList(value: unknown, path: string, errors: SchemaFieldError[]): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return [value];
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `expected an array of strings, got ${describe(value)}` });
+    return [];
+  }
+  return value.filter((item, index) => {
+    if (typeof item === 'string') return true;
+    errors.push({ path: `${path}[${index}]`, message: `expected a string, got ${describe(item)}; dropped` });
+    return false;
+  });
+}
+
+/**
+ * An enum field, coerced when it is a near miss
+ */
+function enumValue<T extends string>(
+  value: unknown,
+  path: string,
+  allowed: T[],
+  aliases: Record<string, T>,
+  errors: SchemaFieldError[]
+): T | null {
+  const coerced = coerceEnum(value, allowed, aliases);
+  if (coerced === null) {
+    errors.push({ path, message: `${JSON.stringify(value)} is not one of ${allowed.join(', ')}` });
+  } else if (coerced !== value) {
+    errors.push({ path, message: `${JSON.stringify(value)} coerced to "${coerced}"` });
+  }
+  return coerced;
+}
+
+function readMemorials(value: unknown, errors: SchemaFieldError[]): MemorialEntry[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push({ path: 'extractedText.memorials', message: `expected an array, got ${describe(value)}` });
+    return [];
+  }
+
+  return value.flatMap((item, index): MemorialEntry[] => {
+    const path = `extractedText.memorials[${index}]`;
+    if (!isRecord(item)) {
+      errors.push({ path, message: `expected an object, got ${describe(item)}; dropped` });
+      return [];
+    }
+
+    const memorial: MemorialEntry = {};
+    for (const field of MEMORIAL_FIELDS) {
+      memorial[field] = optionalString(item[field], `${path}.${field}`, errors);
+    }
+    return [memorial];
+  });
+}
+
+function readTextBlocks(value: unknown, errors: SchemaFieldError[]): TextBlock[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push({ path: 'extractedText.textBlocks', message: `expected an array, got ${describe(value)}` });
+    return undefined;
+  }
+
+  const blocks = value.flatMap((item, index): TextBlock[] => {
+    const path = `extractedText.textBlocks[${index}]`;
+    if (!isRecord(item) || typeof item.text !== 'string') {
+      errors.push({ path, message: 'expected an object with text; dropped' });
+      return [];
+    }
+    if (item.text.trim() === '') return [];
+
+    const language = enumValue(item.language, `${path}.language`, LANGUAGES, LANGUAGE_ALIASES, errors);
+    return language ? [{ language, text: item.text }] : [];
+  });
+
+  return blocks.length > 0 ? blocks : undefined;
+}
+
+function readIssues(value: unknown[], errors: SchemaFieldError[]): ProofreadResponseData['issues'] {
+  return value.flatMap((item, index): ProofreadResponseData['issues'] => {
+    const path = `issues[${index}]`;
+    if (!isRecord(item)) {
+      errors.push({ path, message: `expected an object, got ${describe(item)}; dropped` });
+      return [];
+    }
+
+    const category = enumValue(item.category, `${path}.category`, CATEGORIES, CATEGORY_ALIASES, errors);
+    const explanation = optionalString(item.explanation, `${path}.explanation`, errors);
+    if (!category || !explanation) {
+      errors.push({ path, message: explanation ? 'dropped' : 'no explanation; dropped' });
+      return [];
+    }
+
+    // An unreadable severity is not worth losing the finding over
+    const severity = enumValue(item.severity, `${path}.severity`, SEVERITIES, SEVERITY_ALIASES, errors) ?? 'warning';
+
+    const issue: Omit<ProofreadingIssue, 'id'> = {
+      category,
+      severity,
+      originalText: optionalString(item.originalText, `${path}.originalText`, errors) ?? '',
+      explanation,
+    };
+    const suggestedFix = optionalString(item.suggestedFix, `${path}.suggestedFix`, errors);
+    if (suggestedFix) issue.suggestedFix = suggestedFix;
+    return [issue];
+  });
+}
+
+/**
+ * Validate a parsed model response. Only a response without the page text
+ * (or with issues that are not a list) fails; anything else is kept with the
+ * bad fields dropped or coerced and listed in errors.
+ */
+export function validateProofreadResponse(value: unknown): SchemaResult {
+  const errors: SchemaFieldError[] = [];
+
+  if (!isRecord(value)) {
+    errors.push({ path: '$', message: `expected an object, got ${describe(value)}` });
+    return { ok: false, errors };
+  }
+  if (!isRecord(value.extractedText)) {
+    errors.push({ path: 'extractedText', message: `expected an object, got ${describe(value.extractedText)}` });
+    return { ok: false, errors };
+  }
+  const source = value.extractedText;
+  if (typeof source.rawText !== 'string') {
+    errors.push({ path: 'extractedText.rawText', message: `expected a string, got ${describe(source.rawText)}` });
+    return { ok: false, errors };
+  }
+  const issues = value.issues ?? [];
+  if (!Array.isArray(issues)) {
+    errors.push({ path: 'issues', message: `expected an array, got ${describe(value.issues)}` });
+    return { ok: false, errors };
+  }
+
+  const extractedText: ExtractedTombstoneText = {
+    rawText: source.rawText,
+    familyName: optionalString(source.familyName, 'extractedText.familyName', errors),
+    memorials: readMemorials(source.memorials, errors),
+    headerFormulas: stringList(source.headerFormulas, 'extractedText.headerFormulas', errors),
+    footerFormulas: stringList(source.footerFormulas, 'extractedText.footerFormulas', errors),
+    textBlocks: readTextBlocks(source.textBlocks, errors),
+  };
+
+  return { ok: true, data: { extractedText, issues: readIssues(issues, errors) }, errors };
+}
+
+/**
+ * Find and validate the JSON object in a model's reply, which may be wrapped
+ * in a code fence or surrounded by prose. A reply cut off mid-object fails
+ * with the parser's message.
+ */
+export function parseProofreadResponse(text: string): SchemaResult {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1) {
+    return { ok: false, errors: [{ path: '$', message: 'no JSON object in the response' }] };
+  }
+
+  try {
+    return validateProofreadResponse(JSON.parse(text.slice(start, end + 1)));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const truncated = end < start || !text.trimEnd().replace(/`+$/, '').trimEnd().endsWith('}');
+    return {
+      ok: false,
+      errors: [{ path: '$', message: `invalid JSON${truncated ? ' (the response looks cut off)' : ''}: ${reason}` }],
+    };
+  }
+}
+
+/**
+ * Field errors as one line each, for logs and the repair prompt
+ */
+export function formatSchemaErrors(errors: SchemaFieldError[]): string {
+  return errors.map((error) => `${error.path}: ${error.message}`).join('\n');
+}
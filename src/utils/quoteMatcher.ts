@@ -0,0 +1,397 @@
+/**
+ * Quote Matcher
+ * Finds the source of a memorial's quote in the bundled corpus of verses and
+ * prayers, ignoring niqqud and maqaf, and reports word-level differences.
+ * The corpus holds the verses and prayers most often engraved on stones, not
+ * the whole of Tanakh and the liturgy; a quote from anywhere else is reported
+ * as unmatched and left to the model.
+ */
+
+import type {
+  MemorialEntry,
+  ProofreadingIssue,
+  QuoteDiffKind,
+  QuoteMatch,
+  QuoteWordDiff,
+  TextSpan,
+  UnmatchedQuote,
+} from '../types/proofreader';
+import corpus from '../data/quoteCorpus.json';
+import { editDistance, intToHebrewNumeral, normalizeFinalLetters, normalizeQuotes } from './hebrewTextUtils';
+
+// A verse ("משלי", 31, 10) or a prayer ("קדיש", no chapter/verse)
+interface CorpusEntry {
+  source: string;
+  chapter?: number;
+  verse?: number;
+  text: string;
+}
+
+// Consecutive verses of one chapter (or one prayer) as a single run of words
+interface Passage {
+  source: string;
+  chapter?: number;
+  words: Array<{ text: string; key: string; verse?: number }>;
+}
+
+// A word of the quote with its position in the original quote string
+interface QuoteToken extends TextSpan {
+  text: string;
+  key: string;
+}
+
+// Verses and prayers in the corpus, for the report's note on its coverage
+export const QUOTE_CORPUS_SIZE = corpus.length;
+
+// Below this share of matching words the quote is treated as original text
+const MIN_MATCH_SCORE = 0.6;
+
+// How two words compare; 'similar' is a one-letter slip, reported as 'changed'
+type WordComparison = 'match' | 'variant' | 'similar' | 'changed';
+
+// Alignment costs: plene/defective spellings and one-letter slips are cheaper than other substitutions
+const DIFF_COSTS: Record<WordComparison | 'gap', number> = {
+  match: 0,
+  variant: 0.2,
+  similar: 0.6,
+  changed: 1,
+  gap: 1,
+};
+
+// Niqqud and cantillation marks, except maqaf/paseq/sof pasuq which separate words
+const NIQQUD_PATTERN = /[֑-ֽֿׁ-ׂׄ-ׇ]/g;
+const WORD_SEPARATOR_PATTERN = /[־׀׃]|(?<=[א-ת])-(?=[א-ת])/g;
+
+// Ways of writing the Divine Name, with an optional ו/ב/ל/מ/ש prefix
+const DIVINE_NAME_PATTERN = /^([ובלמש]?)(יהוה|ה'|ד'|יי|יקוק)$/;
+const ELOKIM_PATTERN = /^([ובלמש]?)אלו?ק(ים|יך|יכם|ינו|י)$/;
+
+/**
+ * Comparison key for one word: no niqqud, plain quotes, no surrounding
+ * punctuation, and a single spelling of the Divine Name
+ */
+function normalizeWord(word: string): string {
+  const bare = normalizeQuotes(word.replace(NIQQUD_PATTERN, ''))
+    .replace(/^[^א-ת]+/, '')
+    .replace(/[^א-ת']+$/, '');
+
+  const divine = bare.match(DIVINE_NAME_PATTERN);
+  if (divine) return `${divine[1]}ה'`;
+
+  const elokim = bare.match(ELOKIM_PATTERN);
+  if (elokim) return `${elokim[1]}אלה${elokim[2]}`;
+
+  return bare;
+}
+
+/**
+ * A word without ו/י matres lectionis and final letters, so that אלוהים and
+ * אלהים or שולחן and שלחן compare equal
+ */
+function defectiveForm(key: string): string {
+  return normalizeFinalLetters(key.replace(/[וי]/g, ''));
+}
+
+function compareWords(quoteKey: string, sourceKey: string): WordComparison {
+  if (quoteKey === sourceKey) return 'match';
+  if (defectiveForm(quoteKey) === defectiveForm(sourceKey)) return 'variant';
+  if (Math.min(quoteKey.length, sourceKey.length) >= 3 && editDistance(quoteKey, sourceKey) === 1) {
+    return 'similar';
+  }
+  return 'changed';
+}
+
+/**
+ * Split a quote into words, keeping their offsets in the original string.
+ * Maqaf-joined words count separately and parenthesised references are skipped.
+ */
+function tokenizeQuote(quote: string): QuoteToken[] {
+  const separated = quote
+    .replace(WORD_SEPARATOR_PATTERN, ' ')
+    .replace(/\([^)]*\)/g, (reference) => ' '.repeat(reference.length));
+
+  return [...separated.matchAll(/\S+/g)]
+    .map((match) => ({
+      text: match[0],
+      key: normalizeWord(match[0]),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }))
+    .filter((token) => token.key.length > 0);
+}
+
+/**
+ * Group the corpus into passages of consecutive verses, so a quote spanning
+ * two verses ("אשת חיל מי ימצא... בטח בה לב בעלה") is matched as one
+ */
+function buildPassages(entries: CorpusEntry[]): Passage[] {
+  const passages: Passage[] = [];
+  let lastVerse: number | undefined;
+
+  for (const entry of entries) {
+    const words = entry.text
+      .replace(WORD_SEPARATOR_PATTERN, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((text) => ({ text, key: normalizeWord(text), verse: entry.verse }));
+
+    const current = passages[passages.length - 1];
+    const continues = current
+      && entry.verse !== undefined
+      && current.source === entry.source
+      && current.chapter === entry.chapter
+      && lastVerse !== undefined
+      && entry.verse === lastVerse + 1;
+
+    if (continues) {
+      current.words.push(...words);
+    } else {
+      passages.push({ source: entry.source, chapter: entry.chapter, words });
+    }
+    lastVerse = entry.verse;
+  }
+
+  return passages;
+}
+
+const PASSAGES = buildPassages(corpus as CorpusEntry[]);
+
+/**
+ * "משלי ל"א, י'" for a verse, "משלי ל"א, י'-י"א" for a range, or the prayer's name
+ */
+function formatReference(passage: Passage, firstVerse?: number, lastVerse?: number): string {
+  if (passage.chapter === undefined || firstVerse === undefined) return passage.source;
+
+  const chapter = intToHebrewNumeral(passage.chapter);
+  const verses = lastVerse !== undefined && lastVerse !== firstVerse
+    ? `${intToHebrewNumeral(firstVerse)}-${intToHebrewNumeral(lastVerse)}`
+    : intToHebrewNumeral(firstVerse);
+  return `${passage.source} ${chapter}, ${verses}`;
+}
+
+// An aligned pair: a quote word, a source word, or both
+interface AlignedPair {
+  kind: QuoteDiffKind;
+  token?: QuoteToken;
+  sourceIndex?: number;
+}
+
+/**
+ * Align the whole quote against the best-matching stretch of a passage
+ * (free start and end in the passage, so quoting part of a verse costs nothing)
+ */
+function alignQuote(tokens: QuoteToken[], passage: Passage): { cost: number; pairs: AlignedPair[] } {
+  const m = tokens.length;
+  const n = passage.words.length;
+  const cost: number[][] = Array.from({ length: m + 1 }, (_, i) => {
+    const row = new Array<number>(n + 1).fill(0);
+    row[0] = i * DIFF_COSTS.gap;
+    return row;
+  });
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const kind = compareWords(tokens[i - 1].key, passage.words[j - 1].key);
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + DIFF_COSTS[kind],
+        cost[i - 1][j] + DIFF_COSTS.gap,
+        cost[i][j - 1] + DIFF_COSTS.gap
+      );
+    }
+  }
+
+  let j = 0;
+  for (let k = 1; k <= n; k++) {
+    if (cost[m][k] < cost[m][j]) j = k;
+  }
+  const total = cost[m][j];
+
+  const pairs: AlignedPair[] = [];
+  let i = m;
+  while (i > 0) {
+    if (j > 0) {
+      const kind = compareWords(tokens[i - 1].key, passage.words[j - 1].key);
+      if (cost[i][j] === cost[i - 1][j - 1] + DIFF_COSTS[kind]) {
+        pairs.push({ kind: kind === 'similar' ? 'changed' : kind, token: tokens[i - 1], sourceIndex: j - 1 });
+        i--;
+        j--;
+        continue;
+      }
+      if (cost[i][j] === cost[i][j - 1] + DIFF_COSTS.gap) {
+        pairs.push({ kind: 'missing', sourceIndex: j - 1 });
+        j--;
+        continue;
+      }
+    }
+    pairs.push({ kind: 'extra', token: tokens[i - 1] });
+    i--;
+  }
+
+  return { cost: total, pairs: pairs.reverse() };
+}
+
+/**
+ * Find the closest source for a quote, or null when nothing in the corpus is
+ * close enough (original wording, or a source the corpus does not include)
+ */
+export function findQuoteSource(quote: string): QuoteMatch | null {
+  const tokens = tokenizeQuote(quote);
+  if (tokens.length < 2) return null;
+
+  let best: { passage: Passage; cost: number; pairs: AlignedPair[] } | null = null;
+  for (const passage of PASSAGES) {
+    const aligned = alignQuote(tokens, passage);
+    if (!best || aligned.cost < best.cost) best = { passage, ...aligned };
+  }
+  if (!best) return null;
+
+  const score = Math.max(0, 1 - best.cost / tokens.length);
+  const agreeing = best.pairs.filter((pair) => pair.kind === 'match' || pair.kind === 'variant').length;
+  if (score < MIN_MATCH_SCORE || agreeing < 2) return null;
+
+  const { passage, pairs } = best;
+  const sourceIndexes = pairs
+    .map((pair) => pair.sourceIndex)
+    .filter((index): index is number => index !== undefined);
+  const first = Math.min(...sourceIndexes);
+  const last = Math.max(...sourceIndexes);
+
+  const diffs: QuoteWordDiff[] = pairs.map((pair) => ({
+    kind: pair.kind,
+    quoteWord: pair.token?.text,
+    sourceWord: pair.sourceIndex !== undefined ? passage.words[pair.sourceIndex].text : undefined,
+  }));
+
+  return {
+    quote,
+    reference: formatReference(passage, passage.words[first].verse, passage.words[last].verse),
+    sourceText: passage.words.slice(first, last + 1).map((word) => word.text).join(' '),
+    score: Math.round(score * 100) / 100,
+    diffs,
+  };
+}
+
+/**
+ * Whether every word of the quote agrees with its source (spelling variants aside)
+ */
+export function isExactQuote(match: QuoteMatch): boolean {
+  return match.diffs.every((diff) => diff.kind === 'match' || diff.kind === 'variant');
+}
+
+/**
+ * Turn the differences in a matched quote into quote_accuracy issues,
+ * positioned within the quote
+ */
+function quoteIssues(match: QuoteMatch, memorial: MemorialEntry): ProofreadingIssue[] {
+  const issues: ProofreadingIssue[] = [];
+  const tokens = tokenizeQuote(match.quote);
+  let tokenIndex = 0;
+
+  const push = (issue: Omit<ProofreadingIssue, 'id' | 'category' | 'location'>, span?: TextSpan) => {
+    issues.push({
+      id: `quote-${Date.now()}-${issues.length}`,
+      category: 'quote_accuracy',
+      ...issue,
+      location: { section: memorial.name, context: match.quote, span },
+    });
+  };
+
+  for (let index = 0; index < match.diffs.length; index++) {
+    const diff = match.diffs[index];
+
+    if (diff.kind === 'missing') {
+      // A run of missing words is one issue, anchored on the quote word before it
+      const missing: string[] = [];
+      while (match.diffs[index]?.kind === 'missing') {
+        missing.push(match.diffs[index].sourceWord!);
+        index++;
+      }
+      index--;
+
+      const anchor = tokens[tokenIndex - 1] ?? tokens[tokenIndex];
+      const before = tokenIndex > 0;
+      push({
+        severity: 'error',
+        originalText: anchor.text,
+        suggestedFix: before ? `${anchor.text} ${missing.join(' ')}` : `${missing.join(' ')} ${anchor.text}`,
+        explanation: `חסר "${missing.join(' ')}" לעומת המקור (${match.reference})`,
+      }, { start: anchor.start, end: anchor.end });
+      continue;
+    }
+
+    const token = tokens[tokenIndex++];
+    const span = token ? { start: token.start, end: token.end } : undefined;
+
+    if (diff.kind === 'variant') {
+      push({
+        severity: 'suggestion',
+        originalText: diff.quoteWord!,
+        suggestedFix: diff.sourceWord,
+        explanation: `כתיב שונה מהמקור (${match.reference}): "${diff.sourceWord}"`,
+      }, span);
+    } else if (diff.kind === 'changed') {
+      push({
+        severity: 'error',
+        originalText: diff.quoteWord!,
+        suggestedFix: diff.sourceWord,
+        explanation: `במקור (${match.reference}) כתוב "${diff.sourceWord}"`,
+      }, span);
+    } else if (diff.kind === 'extra') {
+      push({
+        severity: 'error',
+        originalText: diff.quoteWord!,
+        explanation: `המילה "${diff.quoteWord}" אינה מופיעה במקור (${match.reference})`,
+      }, span);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Match each memorial's quote against the corpus. Returns the matches for the
+ * report, the quotes the corpus has no source for, and an issue for every
+ * word that differs from the source.
+ */
+export function checkMemorialQuotes(memorials: MemorialEntry[]): {
+  matches: QuoteMatch[];
+  unmatched: UnmatchedQuote[];
+  issues: ProofreadingIssue[];
+} {
+  const matches: QuoteMatch[] = [];
+  const unmatched: UnmatchedQuote[] = [];
+  const issues: ProofreadingIssue[] = [];
+
+  for (const memorial of memorials) {
+    if (!memorial.quote?.trim()) continue;
+
+    const match = findQuoteSource(memorial.quote);
+    if (!match) {
+      unmatched.push({ memorialName: memorial.name, quote: memorial.quote });
+      continue;
+    }
+
+    matches.push({ ...match, memorialName: memorial.name });
+    issues.push(...quoteIssues(match, memorial));
+  }
+
+  return { matches, unmatched, issues };
+}
+
+/**
+ * Drop the model's quote_accuracy issues about quotes the corpus confirms
+ * word for word - those are recollection errors, not errors on the stone
+ */
+export function withoutRefutedQuoteIssues(
+  issues: ProofreadingIssue[],
+  matches: QuoteMatch[]
+): ProofreadingIssue[] {
+  const confirmed = matches.filter(isExactQuote).map((match) => normalizeQuotes(match.quote));
+  if (confirmed.length === 0) return issues;
+
+  return issues.filter((issue) => {
+    if (issue.category !== 'quote_accuracy' || issue.id.startsWith('quote-')) return true;
+    const text = normalizeQuotes(issue.originalText.trim());
+    return !text || !confirmed.some((quote) => quote.includes(text));
+  });
+}
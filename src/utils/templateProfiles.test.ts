@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractedTombstoneText, MemorialEntry } from '../types/proofreader';
+import { checkTemplate, detectTemplate, findFormulas } from './templateProfiles';
+
+function stone(rawText: string, memorials: MemorialEntry[]): ExtractedTombstoneText {
+  return { rawText, memorials, headerFormulas: [], footerFormulas: [] };
+}
+
+const MOSHE: MemorialEntry = { name: 'משה כהן', parentNames: 'בן יעקב ושרה', hebrewDeathDate: 'י"א סיון תשע"ט' };
+
+describe('detectTemplate', () => {
+  it('tells the kinds of stone apart', () => {
+    expect(detectTemplate(stone('פ"נ\nמשה כהן\nת.נ.צ.ב.ה', [MOSHE]))).toBe('ashkenazi');
+    expect(detectTemplate(stone('פ"ט\nמשה כהן\nנ"ע', [MOSHE]))).toBe('sephardi');
+    expect(detectTemplate(stone('סמל\nמשה כהן\nנפל בעת מילוי תפקידו', [MOSHE]))).toBe('military');
+    expect(detectTemplate(stone('משה כהן\n1938 - 2019', [{ name: 'משה כהן' }]))).toBe('secular');
+    expect(detectTemplate(stone('משה כהן\nשרה כהן', [{ name: 'משה כהן' }, { name: 'שרה כהן' }]))).toBe('family');
+  });
+});
+
+describe('findFormulas', () => {
+  it('finds the opening and closing formulas as engraved', () => {
+    expect(findFormulas('פ"נ\nמשה כהן\nתנצב"ה')).toEqual({ headerFormulas: ['פ"נ'], footerFormulas: ['תנצב"ה'] });
+  });
+});
+
+describe('checkTemplate', () => {
+  it('accepts a complete Ashkenazi stone', () => {
+    const text = stone('פ"נ\nמשה כהן\nבן יעקב ושרה\nנפטר י"א סיון תשע"ט\nת.נ.צ.ב.ה', [MOSHE]);
+    expect(checkTemplate(text, 'ashkenazi')).toEqual([]);
+  });
+
+  it('reports a missing required formula with the template\'s wording as the fix', () => {
+    const issues = checkTemplate(stone('פ"נ\nמשה כהן\nבן יעקב ושרה\nנפטר י"א סיון תשע"ט', [MOSHE]), 'ashkenazi');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ category: 'missing_element', severity: 'error', suggestedFix: 'ת.נ.צ.ב.ה' });
+  });
+
+  it('reports a missing per-memorial field under the memorial\'s name', () => {
+    const issues = checkTemplate(stone('פ"נ\nמשה כהן\nנפטר י"א סיון תשע"ט\nת.נ.צ.ב.ה', [{ ...MOSHE, parentNames: undefined }]), 'ashkenazi');
+    expect(issues).toMatchObject([{ category: 'missing_element', location: { section: 'משה כהן' } }]);
+  });
+
+  it('reports a formula out of order', () => {
+    const issues = checkTemplate(stone('משה כהן\nבן יעקב ושרה\nפ"נ\nנפטר י"א סיון תשע"ט\nת.נ.צ.ב.ה', [MOSHE]), 'ashkenazi');
+    expect(issues).toMatchObject([{ category: 'formatting', severity: 'warning', originalText: 'פ"נ' }]);
+  });
+
+  it('does not require religious formulas on a secular stone', () => {
+    const text = stone('משפחת כהן\nמשה כהן\n1938 - 2019', [{ name: 'משה כהן', gregorianYears: '1938 - 2019' }]);
+    expect(checkTemplate(text, 'secular')).toEqual([]);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Template Profiles
+ * The structure expected of each kind of stone - which elements it must
+ * carry, in what order, and the accepted wordings of its formulas
+ */
+
+import type {
+  ExtractedTombstoneText,
+  MemorialEntry,
+  ProofreadingIssue,
+  TemplateElementKind,
+  TemplateId,
+  TemplateSelection,
+} from '../types/proofreader';
+
+// One element of a template; formula elements list their accepted wordings
+interface TemplateElement {
+  kind: TemplateElementKind;
+  label: string;
+  required: boolean;
+  alternatives?: RegExp[];
+  suggestedText?: string;  // Offered as the fix when a required formula is missing
+}
+
+export interface TemplateProfile {
+  id: TemplateId;
+  label: string;
+  elements: TemplateElement[];  // In engraving order, top to bottom
+}
+
+// Gershayim and geresh in either form
+const Q = '["״]';
+const G = "['׳]";
+
+// A phrase standing as whole words on a line
+const phrase = (source: string) => new RegExp(`(?:^|[\\s.,:;-])(?:${source})(?=[\\s.,:;-]|$)`);
+
+const ASHKENAZI_HEADERS = [phrase(`פ${Q}נ`), phrase('פה נקבר(?:ה)?'), phrase('פה נטמנ?(?:ה|ן)?')];
+const SEPHARDI_HEADERS = [phrase(`פ${Q}ט`), phrase('פה טמונ?(?:ה|ן)?'), phrase('מצבת קבורת'), phrase('הלא זאת מצבת')];
+const TANATZBAH = [phrase('ת\\.נ\\.צ\\.ב\\.ה\\.?'), phrase(`תנצב${Q}ה`), phrase('תהא נשמת(?:ו|ה|ם) צרורה בצרור החיים')];
+const SEPHARDI_FOOTERS = [phrase(`נ${Q}ע`), phrase('(?:נוח|מנוחת)(?:ו|ה) עדן')];
+const FAMILY_HEADERS = [/^\s*משפחת\s/];
+const RANKS = [
+  phrase(`טוראי|טור${G}|רב${Q}ט|רב טוראי|סמל|סמ${Q}ר|סמל ראשון|רס${Q}ל|רס${Q}ר|רס${Q}מ|רס${Q}ב|רנ${Q}ג`),
+  phrase(`סג${Q}מ|סגן|סרן|רס${Q}ן|סא${Q}ל|אל${Q}מ|תא${Q}ל|אלוף|רב-אלוף|רא${Q}ל`),
+];
+const FALLEN = [phrase('נפלה?'), phrase(`חלל(?:ת)? צה${Q}ל`)];
+
+const ELEMENT_LABELS: Record<TemplateElementKind, string> = {
+  familyHeader: 'כותרת משפחה (משפחת...)',
+  header: 'פתיחה (פ"נ)',
+  rank: 'דרגה',
+  name: 'שם הנפטר/ת',
+  parentNames: 'שמות ההורים',
+  fallen: 'נוסח הנפילה',
+  deathDate: 'תאריך הפטירה',
+  footer: 'סיום (ת.נ.צ.ב.ה)',
+};
+
+// Elements that appear once per memorial rather than once per stone
+const MEMORIAL_ELEMENTS: TemplateElementKind[] = ['name', 'parentNames', 'deathDate'];
+
+const element = (
+  kind: TemplateElementKind,
+  required: boolean,
+  alternatives?: RegExp[],
+  suggestedText?: string
+): TemplateElement => ({ kind, label: ELEMENT_LABELS[kind], required, alternatives, suggestedText });
+
+export const TEMPLATE_PROFILES: Record<TemplateId, TemplateProfile> = {
+  ashkenazi: {
+    id: 'ashkenazi',
+    label: 'אשכנזי',
+    elements: [
+      element('header', true, [...ASHKENAZI_HEADERS, ...SEPHARDI_HEADERS], 'פ"נ'),
+      element('name', true),
+      element('parentNames', true),
+      element('deathDate', true),
+      element('footer', true, TANATZBAH, 'ת.נ.צ.ב.ה'),
+    ],
+  },
+  sephardi: {
+    id: 'sephardi',
+    label: 'ספרדי',
+    elements: [
+      element('header', true, [...SEPHARDI_HEADERS, ...ASHKENAZI_HEADERS], 'פ"ט'),
+      element('name', true),
+      element('parentNames', true),
+      element('deathDate', true),
+      element('footer', true, [...TANATZBAH, ...SEPHARDI_FOOTERS], 'ת.נ.צ.ב.ה'),
+    ],
+  },
+  secular: {
+    id: 'secular',
+    label: 'חילוני',
+    elements: [
+      element('familyHeader', false, FAMILY_HEADERS),
+      element('name', true),
+      element('parentNames', false),
+      element('deathDate', true),
+    ],
+  },
+  military: {
+    id: 'military',
+    label: 'צבאי (צה"ל)',
+    elements: [
+      element('rank', true, RANKS),
+      element('name', true),
+      element('parentNames', true),
+      element('fallen', true, FALLEN, 'נפל בעת מילוי תפקידו'),
+      element('deathDate', true),
+      element('footer', false, TANATZBAH),
+    ],
+  },
+  family: {
+    id: 'family',
+    label: 'משפחתי / זוגי',
+    elements: [
+      element('familyHeader', false, FAMILY_HEADERS),
+      element('header', false, [...ASHKENAZI_HEADERS, ...SEPHARDI_HEADERS]),
+      element('name', true),
+      element('parentNames', false),
+      element('deathDate', true),
+      element('footer', true, [...TANATZBAH, ...SEPHARDI_FOOTERS], 'ת.נ.צ.ב.ה'),
+    ],
+  },
+};
+
+function matchesAny(line: string, patterns: RegExp[]): boolean {
+  return patterns.some((pattern) => pattern.test(line));
+}
+
+/**
+ * The opening and closing formulas found in the text, as engraved
+ */
+export function findFormulas(rawText: string): { headerFormulas: string[]; footerFormulas: string[] } {
+  const collect = (patterns: RegExp[]) => [...new Set(rawText.split('\n').flatMap((line) => patterns
+    .map((pattern) => line.match(pattern)?.[0].replace(/^[\s.,:;-]+/, ''))
+    .filter((text): text is string => !!text)))];
+
+  return {
+    headerFormulas: collect([...ASHKENAZI_HEADERS, ...SEPHARDI_HEADERS]),
+    footerFormulas: collect([...TANATZBAH, ...SEPHARDI_FOOTERS]),
+  };
+}
+
+/**
+ * Pick the template a stone most likely follows: several memorials make a
+ * family stone, a rank or "נפל" a military one, Sephardi formulas a Sephardi
+ * one, and no religious formulas or Hebrew date a secular one
+ */
+export function detectTemplate(extracted: ExtractedTombstoneText): TemplateId {
+  const lines = (extracted.rawText || '').split('\n');
+  const anyLine = (patterns: RegExp[]) => lines.some((line) => matchesAny(line, patterns));
+
+  if (extracted.memorials.length >= 2) return 'family';
+  if (anyLine(RANKS) && anyLine(FALLEN)) return 'military';
+  if (anyLine(SEPHARDI_HEADERS) || anyLine(SEPHARDI_FOOTERS)) return 'sephardi';
+
+  const religious = anyLine(ASHKENAZI_HEADERS) || anyLine(TANATZBAH)
+    || extracted.memorials.some((memorial) => memorial.hebrewDeathDate);
+  return religious ? 'ashkenazi' : 'secular';
+}
+
+/**
+ * The template to check against: the user's choice, or the detected one
+ */
+export function selectTemplate(
+  extracted: ExtractedTombstoneText,
+  choice: TemplateId | 'auto'
+): TemplateSelection {
+  const id = choice === 'auto' ? detectTemplate(extracted) : choice;
+  return { id, label: TEMPLATE_PROFILES[id].label, autoDetected: choice === 'auto' };
+}
+
+// Where an element was found: its line, and the memorial it belongs to (null for stone-wide formulas)
+interface ElementOccurrence {
+  element: TemplateElement;
+  order: number;
+  line: number;
+  memorialIndex: number | null;
+}
+
+/**
+ * First line at or after `from` containing any of the needles
+ */
+function findLine(lines: string[], needles: Array<string | undefined>, from = 0): number {
+  for (const needle of needles) {
+    if (!needle || needle.trim().length < 2) continue;
+    const index = lines.findIndex((line, i) => i >= from && line.includes(needle.trim()));
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+/**
+ * Locate a per-memorial element. Dates are looked up by the full string,
+ * then by the year alone, since the model does not always copy them verbatim.
+ */
+function findMemorialElement(
+  lines: string[],
+  kind: TemplateElementKind,
+  memorial: MemorialEntry,
+  nameLine: number
+): number {
+  const from = Math.max(nameLine, 0);
+
+  if (kind === 'name') {
+    return findLine(lines, [memorial.name, memorial.name?.split(/\s+/)[0]], from);
+  }
+  if (kind === 'parentNames') {
+    return findLine(lines, [memorial.parentNames, memorial.parentNames?.split(/\s+/).slice(0, 2).join(' ')], from);
+  }
+
+  const hebrewYear = memorial.hebrewDeathDate?.trim().split(/\s+/).pop();
+  const gregorianYears = memorial.gregorianYears?.match(/\d{4}/g) ?? [];
+  const needles = [memorial.hebrewDeathDate, hebrewYear, memorial.gregorianYears, ...gregorianYears];
+  const after = findLine(lines, needles, from);
+  return after !== -1 ? after : findLine(lines, needles);
+}
+
+/**
+ * Check the stone's structure against a template: required elements that are
+ * missing, and elements out of the template's order
+ */
+export function checkTemplate(extracted: ExtractedTombstoneText, templateId: TemplateId): ProofreadingIssue[] {
+  const profile = TEMPLATE_PROFILES[templateId];
+  const lines = (extracted.rawText || '').split('\n');
+  const issues: ProofreadingIssue[] = [];
+  const occurrences: ElementOccurrence[] = [];
+
+  const pushMissing = (element: TemplateElement, section: string, memorialName?: string) => {
+    issues.push({
+      id: `template-${Date.now()}-${issues.length}`,
+      category: 'missing_element',
+      severity: 'error',
+      originalText: '',
+      suggestedFix: element.suggestedText,
+      explanation: `חסר ${element.label}${memorialName ? ` של "${memorialName}"` : ''} - נדרש בתבנית ${profile.label}`,
+      location: { section },
+    });
+  };
+
+  profile.elements.forEach((element, order) => {
+    if (MEMORIAL_ELEMENTS.includes(element.kind)) return;
+
+    const line = lines.findIndex((text) => matchesAny(text, element.alternatives ?? []));
+    if (line !== -1) {
+      occurrences.push({ element, order, line, memorialIndex: null });
+    } else if (element.required) {
+      pushMissing(element, 'מבנה המצבה');
+    }
+  });
+
+  let searchFrom = 0;
+  extracted.memorials.forEach((memorial, memorialIndex) => {
+    const nameLine = findMemorialElement(lines, 'name', memorial, searchFrom);
+    const section = memorial.name || `הנצחה ${memorialIndex + 1}`;
+
+    profile.elements.forEach((element, order) => {
+      if (!MEMORIAL_ELEMENTS.includes(element.kind)) return;
+
+      // Without an extracted field there is nothing on the stone to find it by
+      const field = element.kind === 'deathDate'
+        ? memorial.hebrewDeathDate || memorial.gregorianYears
+        : memorial[element.kind as 'name' | 'parentNames'];
+      if (!field) {
+        if (element.required) pushMissing(element, section, memorial.name);
+        return;
+      }
+
+      const line = element.kind === 'name' ? nameLine : findMemorialElement(lines, element.kind, memorial, nameLine);
+      if (line !== -1) occurrences.push({ element, order, line, memorialIndex });
+    });
+
+    if (nameLine !== -1) searchFrom = nameLine + 1;
+  });
+
+  // Pairs out of order, formula-against-field pairs first since they say the most about where a formula belongs
+  const outOfOrder = occurrences.flatMap((earlier) => occurrences
+    .filter((later) => earlier.order < later.order && earlier.line > later.line
+      && (earlier.memorialIndex === null || later.memorialIndex === null
+        || earlier.memorialIndex === later.memorialIndex))
+    .map((later) => ({ earlier, later })))
+    .sort((x, y) => Number(x.earlier.memorialIndex === x.later.memorialIndex)
+      - Number(y.earlier.memorialIndex === y.later.memorialIndex));
+
+  // Blame stone-wide formulas over memorial fields, and otherwise the element the template puts later
+  const blamed = new Set<ElementOccurrence>();
+  for (const { earlier, later } of outOfOrder) {
+    const blameEarlier = earlier.memorialIndex === null && later.memorialIndex !== null;
+    const culprit = blameEarlier ? earlier : later;
+    if (blamed.has(culprit)) continue;
+    blamed.add(culprit);
+
+    const context = lines[culprit.line].trim();
+    issues.push({
+      id: `template-${Date.now()}-${issues.length}`,
+      category: 'formatting',
+      severity: 'warning',
+      originalText: context,
+      explanation: blameEarlier
+        ? `יש למקם את ${earlier.element.label} לפני ${later.element.label} (תבנית ${profile.label})`
+        : `יש למקם את ${later.element.label} אחרי ${earlier.element.label} (תבנית ${profile.label})`,
+      location: {
+        section: culprit.memorialIndex !== null
+          ? extracted.memorials[culprit.memorialIndex].name
+          : 'מבנה המצבה',
+        context,
+      },
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractedTombstoneText, MemorialEntry, TextBlock } from '../types/proofreader';
+import { checkTransliteratedNames, isTransliterationOf } from './transliteration';
+
+function stone(memorials: MemorialEntry[], textBlocks: TextBlock[]): ExtractedTombstoneText {
+  return {
+    rawText: textBlocks.map((block) => block.text).join('\n'),
+    memorials,
+    headerFormulas: [],
+    footerFormulas: [],
+    textBlocks,
+  };
+}
+
+describe('isTransliterationOf', () => {
+  it('accepts the traditions\' spellings of one name', () => {
+    expect(isTransliterationOf('חיים', 'Chaim')).toBe(true);
+    expect(isTransliterationOf('חיים', 'Haim')).toBe(true);
+    expect(isTransliterationOf('משה', 'Моисей')).toBe(true);
+  });
+
+  it('rejects another name', () => {
+    expect(isTransliterationOf('חיים', 'David')).toBe(false);
+  });
+});
+
+describe('checkTransliteratedNames', () => {
+  it('accepts a name written the same way throughout', () => {
+    const text = stone(
+      [{ name: 'חיים כהן', transliteratedName: 'Chaim Cohen' }],
+      [
+        { language: 'he', text: 'פ"נ\nחיים כהן' },
+        { language: 'en', text: 'In loving memory\nChaim Cohen\nBeloved father' },
+      ]
+    );
+    expect(checkTransliteratedNames(text)).toEqual([]);
+  });
+
+  it('flags the English section spelling a name differently from the transliterated name', () => {
+    const text = stone(
+      [{ name: 'חיים כהן', transliteratedName: 'Chaim Cohen' }],
+      [
+        { language: 'he', text: 'פ"נ\nחיים כהן' },
+        { language: 'en', text: 'In loving memory of Haim Cohen' },
+      ]
+    );
+    const issues = checkTransliteratedNames(text);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'warning', originalText: 'Haim', suggestedFix: 'Chaim' });
+  });
+
+  it('compares the text blocks with a memorial that has no transliterated name', () => {
+    const text = stone(
+      [{ name: 'משה לוי' }, { name: 'שרה לוי' }],
+      [
+        { language: 'he', text: 'משה לוי\nשרה לוי' },
+        { language: 'en', text: 'Moshe Levi\nSarah Levy' },
+      ]
+    );
+    const issues = checkTransliteratedNames(text);
+    expect(issues.map((issue) => [issue.originalText, issue.suggestedFix])).toEqual([['Levy', 'Levi']]);
+  });
+
+  it('reports a transliterated name that cannot match the Hebrew one', () => {
+    const text = stone([{ name: 'חיים', transliteratedName: 'David' }], [{ language: 'he', text: 'חיים' }]);
+    expect(checkTransliteratedNames(text)).toMatchObject([{ severity: 'error', originalText: 'David' }]);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Transliterated Names
+ * Compares the Hebrew name of each memorial with the name in the Russian or
+ * English section, by consonant skeleton and a table of traditional forms
+ * (משה - Moses, Моисей), and flags one Hebrew name written two ways, in the
+ * transliterated names or anywhere in the Russian and English text
+ */
+
+import type { ExtractedTombstoneText, ProofreadingIssue } from '../types/proofreader';
+import traditionalForms from '../data/transliterations.json';
+import { normalizeFinalLetters } from './hebrewTextUtils';
+import { getTextBlocks, isKnownWord } from './foreignText';
+
+interface SkeletonLetter {
+  sound: string;
+  optional: boolean;
+}
+
+// Hebrew letters as consonant sounds. ה, ו and י are often vowels or silent
+// and may be left out; א and ע are never written.
+const HEBREW_SOUNDS: Record<string, SkeletonLetter> = {
+  'ב': { sound: 'b', optional: false }, 'ג': { sound: 'g', optional: false },
+  'ד': { sound: 'd', optional: false }, 'ה': { sound: 'h', optional: true },
+  'ו': { sound: 'b', optional: true }, 'ז': { sound: 'z', optional: false },
+  'ח': { sound: 'h', optional: false }, 'ט': { sound: 't', optional: false },
+  'י': { sound: 'y', optional: true }, 'כ': { sound: 'k', optional: false },
+  'ל': { sound: 'l', optional: false }, 'מ': { sound: 'm', optional: false },
+  'נ': { sound: 'n', optional: false }, 'ס': { sound: 's', optional: false },
+  'פ': { sound: 'p', optional: false }, 'צ': { sound: 'c', optional: false },
+  'ק': { sound: 'k', optional: false }, 'ר': { sound: 'r', optional: false },
+  'ש': { sound: 's', optional: false }, 'ת': { sound: 't', optional: false },
+};
+
+// Latin spellings to the same sounds, longest first
+const LATIN_SOUNDS: Array<[string, string]> = [
+  ['tsch', 'c'], ['sch', 's'], ['tch', 'c'], ['sh', 's'], ['ch', 'h'], ['kh', 'h'],
+  ['tz', 'c'], ['ts', 'c'], ['ph', 'p'], ['zh', 'z'], ['th', 't'],
+  ['b', 'b'], ['v', 'b'], ['w', 'b'], ['c', 'k'], ['d', 'd'], ['f', 'p'], ['g', 'g'],
+  ['h', 'h'], ['j', 'y'], ['k', 'k'], ['q', 'k'], ['l', 'l'], ['m', 'm'], ['n', 'n'],
+  ['p', 'p'], ['r', 'r'], ['s', 's'], ['t', 't'], ['x', 'k'], ['y', 'y'], ['z', 'z'],
+];
+
+const CYRILLIC_SOUNDS: Record<string, string> = {
+  'б': 'b', 'в': 'b', 'г': 'g', 'д': 'd', 'ж': 'z', 'з': 'z', 'й': 'y', 'к': 'k',
+  'л': 'l', 'м': 'm', 'н': 'n', 'п': 'p', 'ф': 'p', 'р': 'r', 'с': 's', 'т': 't',
+  'х': 'h', 'ц': 'c', 'ч': 'c', 'ш': 's', 'щ': 's',
+};
+
+// Sounds that different traditions write for the same letter: כ as k or kh,
+// ת as t or s (Ashkenazi), צ as ts, s, z or ch (-ovich), ה as h or Russian г
+const EQUIVALENT_SOUNDS = new Set([
+  'k:h', 'h:k', 't:s', 's:t', 'c:s', 's:c', 'c:z', 'z:c', 'c:h', 'h:c', 'h:g', 'g:h', 's:z', 'z:s',
+]);
+
+// Sounds the foreign spelling may add without a Hebrew letter (Sarah, Моисей)
+const SILENT_FOREIGN = new Set(['h', 'y']);
+
+// Words in a name field that are not the name itself
+const HEBREW_TITLES = new Set(['הרב', 'רבי', 'מר']);
+const FOREIGN_TITLES = new Set(['mr', 'mrs', 'ms', 'dr', 'rabbi', 'rav']);
+const PATRONYMIC_PATTERN = /(?:ович|евич|ич|овна|евна|ична|инична)$/i;
+
+const FORMS_BY_NAME = new Map<string, string[]>();
+for (const entry of traditionalForms) {
+  for (const spelling of entry.hebrew) {
+    FORMS_BY_NAME.set(normalizeFinalLetters(spelling), entry.forms);
+  }
+}
+
+function collapse(sounds: string[]): string[] {
+  return sounds.filter((sound, index) => sound !== sounds[index - 1]);
+}
+
+function hebrewSkeleton(word: string): SkeletonLetter[] {
+  const letters = [...normalizeFinalLetters(word)]
+    .map((letter) => HEBREW_SOUNDS[letter])
+    .filter((letter): letter is SkeletonLetter => letter !== undefined);
+  return letters.filter((letter, index) => index === 0 || letter.sound !== letters[index - 1].sound);
+}
+
+function foreignSkeleton(word: string): string[] {
+  const lower = word.toLowerCase();
+  const sounds: string[] = [];
+
+  if (/[а-яё]/.test(lower)) {
+    for (const letter of lower) {
+      if (CYRILLIC_SOUNDS[letter]) sounds.push(CYRILLIC_SOUNDS[letter]);
+    }
+    return collapse(sounds);
+  }
+
+  for (let i = 0; i < lower.length;) {
+    const match = LATIN_SOUNDS.find(([spelling]) => lower.startsWith(spelling, i));
+    if (match) {
+      sounds.push(match[1]);
+      i += match[0].length;
+    } else {
+      i++;  // vowels
+    }
+  }
+
+  return collapse(sounds);
+}
+
+/**
+ * Whether a foreign word can be a transliteration of a Hebrew word: every
+ * Hebrew consonant is written (or is a letter that may be silent) in order,
+ * allowing for the sounds the traditions spell differently
+ */
+export function isTransliterationOf(hebrew: string, foreign: string): boolean {
+  const forms = FORMS_BY_NAME.get(normalizeFinalLetters(hebrew));
+  if (forms?.some((form) => form.toLowerCase() === foreign.toLowerCase())) return true;
+
+  const source = hebrewSkeleton(hebrew);
+  const target = foreignSkeleton(foreign);
+  if (source.length === 0 || target.length === 0) return false;
+
+  const memo = new Map<string, boolean>();
+  const matches = (i: number, j: number): boolean => {
+    if (i === source.length && j === target.length) return true;
+    const key = `${i}:${j}`;
+    if (memo.has(key)) return memo.get(key)!;
+
+    let result = false;
+    if (i < source.length && source[i].optional) result = matches(i + 1, j);
+    if (!result && j < target.length && SILENT_FOREIGN.has(target[j])) result = matches(i, j + 1);
+    if (!result && i < source.length && j < target.length) {
+      const a = source[i].sound;
+      const b = target[j];
+      if (a === b || EQUIVALENT_SOUNDS.has(`${a}:${b}`)) result = matches(i + 1, j + 1);
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+
+  return matches(0, 0);
+}
+
+/**
+ * The words of the name itself, without titles or the parent's name after
+ * בן/בת, which the foreign section gives as a patronymic if at all
+ */
+function hebrewNameWords(name: string): string[] {
+  const words = name.split(/[\s-]+/);
+  const parent = words.findIndex((word) => word === 'בן' || word === 'בת');
+  return (parent === -1 ? words : words.slice(0, parent))
+    .filter((word) => /^[א-ת]+$/.test(word) && !HEBREW_TITLES.has(word));
+}
+
+function foreignNameWords(name: string): string[] {
+  return name
+    .split(/[\s-]+/)
+    .map((word) => word.replace(/[^\p{L}]/gu, ''))
+    .filter((word) => word && !FOREIGN_TITLES.has(word.toLowerCase()) && !PATRONYMIC_PATTERN.test(word));
+}
+
+/**
+ * Capitalised words of a Russian or English line that may be names: not
+ * memorial vocabulary, month names, titles or patronymics
+ */
+function textNameWords(line: string, language: 'ru' | 'en'): string[] {
+  return foreignNameWords(line)
+    .filter((word) => word.length > 1 && word[0] !== word[0].toLowerCase() && !isKnownWord(word, language));
+}
+
+/**
+ * Compare every memorial's Hebrew name with its transliterated name. A Hebrew
+ * word and a foreign word that both have no counterpart are reported as a
+ * mismatch (patronymics and a missing surname are not). One Hebrew name
+ * written two different ways in the same script is reported too (Chaim and Haim).
+ */
+export function checkTransliteratedNames(extracted: ExtractedTombstoneText): ProofreadingIssue[] {
+  const issues: ProofreadingIssue[] = [];
+  const seenForms = new Map<string, string>();
+
+  const add = (issue: Omit<ProofreadingIssue, 'id' | 'category'>) => {
+    issues.push({ id: `translit-${Date.now()}-${issues.length}`, category: 'spelling', ...issue });
+  };
+
+  // The first way each Hebrew name is written in each script is the one the others should follow
+  const noteForm = (hebrew: string, foreign: string, context: string) => {
+    const script = /[А-Яа-яЁё]/.test(foreign) ? 'ru' : 'en';
+    const key = `${normalizeFinalLetters(hebrew)}:${script}`;
+    const earlier = seenForms.get(key);
+
+    if (!earlier) {
+      seenForms.set(key, foreign);
+    } else if (earlier.toLowerCase() !== foreign.toLowerCase()
+      && !issues.some((issue) => issue.originalText === foreign && issue.suggestedFix === earlier)) {
+      add({
+        severity: 'warning',
+        originalText: foreign,
+        suggestedFix: earlier,
+        explanation: `השם "${hebrew}" מתועתק במצבה פעם "${earlier}" ופעם "${foreign}" - יש לאחד לכתיב אחד`,
+        location: { section: script, context },
+      });
+    }
+  };
+
+  for (const memorial of extracted.memorials) {
+    if (!memorial.name || !memorial.transliteratedName) continue;
+
+    const hebrewWords = hebrewNameWords(memorial.name);
+    const foreignWords = foreignNameWords(memorial.transliteratedName);
+    const unmatchedForeign = [...foreignWords];
+    const unmatchedHebrew: string[] = [];
+
+    for (const hebrew of hebrewWords) {
+      const index = unmatchedForeign.findIndex((foreign) => isTransliterationOf(hebrew, foreign));
+      if (index === -1) {
+        unmatchedHebrew.push(hebrew);
+        continue;
+      }
+
+      const foreign = unmatchedForeign.splice(index, 1)[0];
+      noteForm(hebrew, foreign, memorial.transliteratedName);
+    }
+
+    unmatchedHebrew.forEach((hebrew, index) => {
+      const foreign = unmatchedForeign[index];
+      if (!foreign) return;
+
+      const forms = FORMS_BY_NAME.get(normalizeFinalLetters(hebrew));
+      add({
+        severity: 'error',
+        originalText: foreign,
+        suggestedFix: forms?.find((form) => /[А-Яа-яЁё]/.test(form) === /[А-Яа-яЁё]/.test(foreign)),
+        explanation: `השם "${foreign}" אינו תואם לשם העברי "${hebrew}" - יש לוודא את התעתיק מול המשפחה`,
+        location: { context: `${memorial.name} / ${memorial.transliteratedName}` },
+      });
+    });
+  }
+
+  // Names in the Russian and English sections, against every memorial's Hebrew name
+  const hebrewNames = [...new Set(extracted.memorials.flatMap((memorial) => hebrewNameWords(memorial.name ?? '')))];
+  for (const block of getTextBlocks(extracted)) {
+    if (block.language === 'he') continue;
+
+    for (const line of block.text.split('\n')) {
+      for (const foreign of textNameWords(line, block.language)) {
+        const hebrew = hebrewNames.find((name) => isTransliterationOf(name, foreign));
+        if (hebrew) noteForm(hebrew, foreign, line.trim());
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,162 @@
+/**
+ * Yahrzeit Calendar
+ * Computes upcoming yahrzeit dates with @hebcal/core and exports them as iCalendar (.ics)
+ */
+
+import { HDate, HebrewCalendar } from '@hebcal/core';
+import type { MemorialEntry, YahrzeitDate, YahrzeitSchedule } from '../types/proofreader';
+import { parseHebrewDate } from './hebrewDateParser';
+import { extractGregorianDates } from './hebrewTextUtils';
+import { hebrewToGregorian, formatHebrewDateParts } from './hebrewDateValidator';
+
+const DEFAULT_YAHRZEIT_COUNT = 10;
+
+/**
+ * Resolve the Hebrew date of death, preferring the engraved Hebrew date
+ * and falling back to a full Gregorian death date
+ */
+function getDeathHDate(memorial: MemorialEntry): HDate | null {
+  const parsed = parseHebrewDate(memorial.hebrewDeathDate || '');
+  if (parsed.day && parsed.month && parsed.year) {
+    const date = hebrewToGregorian(parsed.day, parsed.month, parsed.year);
+    return date ? new HDate(date) : null;
+  }
+
+  const { deathDate } = extractGregorianDates(memorial.gregorianYears || '');
+  if (deathDate?.day && deathDate.month) {
+    return new HDate(new Date(deathDate.year, deathDate.month - 1, deathDate.day));
+  }
+
+  return null;
+}
+
+/**
+ * Compute the next yahrzeit dates for a memorial.
+ * hebcal applies the standard rules: Adar deaths in leap years, and deaths
+ * on 30 Cheshvan/Kislev in years where that month has only 29 days.
+ */
+export function getUpcomingYahrzeits(
+  memorial: MemorialEntry,
+  count = DEFAULT_YAHRZEIT_COUNT,
+  from: Date = new Date()
+): YahrzeitSchedule | null {
+  const deathDate = getDeathHDate(memorial);
+  if (!deathDate) return null;
+
+  const today = new HDate(from);
+  const dates: YahrzeitDate[] = [];
+
+  for (let year = Math.max(today.getFullYear(), deathDate.getFullYear() + 1); dates.length < count; year++) {
+    const yahrzeit = HebrewCalendar.getYahrzeit(year, deathDate);
+    if (!yahrzeit || yahrzeit.abs() < today.abs()) continue;
+
+    dates.push({
+      hebrewYear: year,
+      hebrewDate: formatHebrewDateParts(yahrzeit.getDate(), yahrzeit.getMonth(), yahrzeit.getFullYear()),
+      gregorianDate: yahrzeit.greg(),
+    });
+  }
+
+  return {
+    memorialName: memorial.name,
+    hebrewDeathDate: memorial.hebrewDeathDate || formatHebrewDateParts(
+      deathDate.getDate(),
+      deathDate.getMonth(),
+      deathDate.getFullYear()
+    ),
+    dates,
+  };
+}
+
+/**
+ * Compute yahrzeit schedules for all memorials with a resolvable date of death
+ */
+export function getAllYahrzeits(
+  memorials: MemorialEntry[],
+  count = DEFAULT_YAHRZEIT_COUNT
+): YahrzeitSchedule[] {
+  return memorials
+    .map((memorial) => getUpcomingYahrzeits(memorial, count))
+    .filter((schedule): schedule is YahrzeitSchedule => schedule !== null);
+}
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 §3.3.11)
+ */
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets (RFC 5545 §3.1)
+ */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Format a date as an iCalendar DATE value (YYYYMMDD)
+ */
+function formatIcsDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}${month}${day}`;
+}
+
+/**
+ * Build an .ics calendar with one all-day event per yahrzeit
+ */
+export function buildYahrzeitIcs(schedule: YahrzeitSchedule, now: Date = new Date()): string {
+  const name = schedule.memorialName || 'הנפטר/ת';
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Eden Karmiel//Hebrew Tombstone Proofreader//HE',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  for (const yahrzeit of schedule.dates) {
+    const start = yahrzeit.gregorianDate;
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:yahrzeit-${formatIcsDate(start)}-${encodeURIComponent(name)}@eden-karmiel`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(start)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(end)}`,
+      `SUMMARY:${escapeIcsText(`יארצייט - ${name}`)}`,
+      `DESCRIPTION:${escapeIcsText(`${yahrzeit.hebrewDate} (נפטר/ה ${schedule.hebrewDeathDate}). היארצייט מתחיל בשקיעה בערב הקודם.`)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -5,15 +5,5 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 5174,
-    proxy: {
-      '/api/claude': {
-        target: 'https://api.anthropic.com',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/claude/, ''),
-        headers: {
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-      },
-    },
   },
 });